@@ -0,0 +1,51 @@
+import { createRandom } from "../src/packer/random";
+import { Size } from "../src/packer/types";
+
+export type DatasetKind = "uniform" | "strips" | "sprites" | "mixed";
+export type Dataset = { name: string; width: number; height: number; boxes: Size[] };
+
+export const DATASET_KINDS: DatasetKind[] = ["uniform", "strips", "sprites", "mixed"];
+
+/**
+ * Generates a reproducible set of boxes and a square container holding roughly the given share of their area.
+ *
+ * @param kind - The kind of the boxes.
+ * @param count - The number of boxes.
+ * @param seed - The seed of the random generator (optional, default is 1).
+ * @param density - The total area of the boxes divided by the area of the container (optional, default is 0.9).
+ * @returns The dataset.
+ * @remarks
+ * - "uniform": Both sides are chosen uniformly from 10 to 100.
+ * - "strips": Long thin boxes, e.g. cuts of a board, with the long side up to 12 times the short one.
+ * - "sprites": A few dozen distinct sizes repeated many times, e.g. the frames of a sprite atlas.
+ * - "mixed": Mostly small boxes with a few large ones among them.
+ */
+export function generateDataset(kind: DatasetKind, count: number, seed = 1, density = 0.9): Dataset {
+  const random = createRandom(seed);
+  const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const boxes: Size[] = [];
+
+  if (kind === "sprites") {
+    const sizes: Size[] = [];
+    for (let i = 0; i < 40; i++) sizes.push({ width: between(8, 64), height: between(8, 64) });
+    for (let i = 0; i < count; i++) boxes.push({ ...sizes[Math.floor(random() * sizes.length)] });
+  } else {
+    for (let i = 0; i < count; i++) {
+      if (kind === "uniform") {
+        boxes.push({ width: between(10, 100), height: between(10, 100) });
+      } else if (kind === "strips") {
+        const short = between(5, 30);
+        const long = short * between(3, 12);
+        boxes.push(random() < 0.5 ? { width: long, height: short } : { width: short, height: long });
+      } else {
+        const large = random() < 0.05;
+        boxes.push(large ? { width: between(100, 300), height: between(100, 300) } : { width: between(5, 40), height: between(5, 40) });
+      }
+    }
+  }
+
+  const area = boxes.reduce((sum, box) => sum + box.width * box.height, 0);
+  const longest = boxes.reduce((max, box) => Math.max(max, box.width, box.height), 0);
+  const side = Math.max(longest, Math.ceil(Math.sqrt(area / density)));
+  return { name: `${kind}-${count}`, width: side, height: side, boxes };
+}
@@ -0,0 +1,176 @@
+import * as fs from "fs";
+import { Box } from "../src/packer/Box";
+import { createPacker } from "../src/packer/createPacker";
+import { PackAlgorithm, SelectionMode } from "../src/packer/types";
+import { validateLayout } from "../src/packer/validation";
+import { DATASET_KINDS, Dataset, DatasetKind, generateDataset } from "./datasets";
+
+type BenchCase = { dataset: string; algorithm: PackAlgorithm; selection: SelectionMode };
+// The time is only saved on request, it depends on the machine and is compared with a run on the same machine
+type BenchRecord = BenchCase & { boxes: number; placed: number; fullness: number; time?: number; checksum: string };
+
+const USAGE = `Usage: npm run bench -- [options]
+  --kinds <list>        Dataset kinds: ${DATASET_KINDS.join(", ")} (default: all)
+  --sizes <list>        Numbers of boxes
+  --algorithms <list>   Packing algorithms (default: maxrects,guillotine,skyline-bottom-left)
+  --selections <list>   Selection modes: best-fit, sequential
+  --seed <number>       Seed of the datasets (default: 1)
+  --repeat <number>     Runs of every case, the fastest one is reported (default: 1)
+  --save <file>         Saves the placed boxes, the fullness and the checksums as JSON, e.g. as bench/baseline.json
+  --save-times <file>   Saves the results with the times, to compare the speed of a change on the same machine
+  --compare <file>      Compares the results with the saved ones, and the times if the file has them
+
+Without --sizes and --selections, 1000 and 10000 boxes are packed in both selection modes.
+The best-fit selection scores every remaining box on every step, so its time grows faster than the number of boxes
+and the 10000 boxes take minutes.`;
+
+/**
+ * Reads the command line options.
+ *
+ * @param args - The arguments after the script name.
+ * @returns The options by name.
+ */
+function parseArgs(args: string[]) {
+  const options: { [name: string]: string } = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith("--") || i + 1 >= args.length) throw new Error(`Unexpected argument: ${args[i]}\n${USAGE}`);
+    options[args[i].slice(2)] = args[++i];
+  }
+  return options;
+}
+
+/**
+ * Packs a dataset and checks the layout.
+ *
+ * @param dataset - The dataset to be packed.
+ * @param benchCase - The algorithm and the selection mode.
+ * @returns The packed boxes and the time spent in milliseconds.
+ */
+function run(dataset: Dataset, benchCase: BenchCase) {
+  const packer = createPacker(benchCase.algorithm, dataset.width, dataset.height);
+  packer.setOptions({ selection: benchCase.selection });
+  dataset.boxes.forEach((box, id) => packer.addBox(box.width, box.height, id));
+
+  const start = process.hrtime();
+  const boxes = packer.pack();
+  const [seconds, nanoseconds] = process.hrtime(start);
+
+  const expected = { boxes: dataset.boxes.map((box, id) => ({ ...box, id })) };
+  const [violation] = validateLayout({ width: dataset.width, height: dataset.height }, boxes, expected);
+  if (violation) throw new Error(`${dataset.name} ${benchCase.algorithm} ${benchCase.selection}: ${violation.message}`);
+  return { boxes, fullness: packer.fullness, time: seconds * 1000 + nanoseconds / 1e6 };
+}
+
+/**
+ * Calculates a short checksum of the positions of the boxes, so a changed layout is noticed even at the same fullness.
+ *
+ * @param boxes - The placed boxes.
+ * @returns The checksum as a hexadecimal string.
+ */
+function checksum(boxes: Box[]) {
+  let hash = 0x811c9dc5;
+  for (const box of boxes) {
+    for (const value of [box.id, box.left, box.top, box.right, box.bottom]) {
+      hash = Math.imul(hash ^ value, 0x01000193) >>> 0;
+    }
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+/**
+ * Formats a row of the result table.
+ */
+function formatRow(cells: (string | number)[]) {
+  const widths = [16, 21, 12, 8, 10, 10, 10, 24];
+  return cells.map((cell, i) => String(cell).padEnd(widths[i])).join("").trimEnd();
+}
+
+/**
+ * Describes the change of a result relative to the saved one.
+ *
+ * @param record - The new result.
+ * @param saved - The saved result of the same case.
+ * @returns The description, or an empty string if nothing changed.
+ */
+function describeChange(record: BenchRecord, saved: BenchRecord | undefined) {
+  if (!saved) return "new";
+  const changes: string[] = [];
+  const speedup = saved.time !== undefined ? saved.time / Math.max(record.time, 0.001) : 1;
+  if (speedup >= 1.1 || speedup <= 0.9) changes.push(`${speedup.toFixed(2)}x speed`);
+  const fullness = record.fullness - saved.fullness;
+  if (Math.abs(fullness) > 1e-9) changes.push(`${fullness > 0 ? "+" : ""}${(fullness * 100).toFixed(2)}% fullness`);
+  if (record.checksum !== saved.checksum) changes.push("layout changed");
+  return changes.join(", ");
+}
+
+function main() {
+  if (process.argv.includes("--help")) {
+    console.log(USAGE);
+    return;
+  }
+
+  const options = parseArgs(process.argv.slice(2));
+  const list = (name: string, fallback: string[]) => (options[name] ? options[name].split(",") : fallback);
+  const kinds = list("kinds", DATASET_KINDS) as DatasetKind[];
+  const algorithms = list("algorithms", ["maxrects", "guillotine", "skyline-bottom-left"]) as PackAlgorithm[];
+  const suite: [number, SelectionMode[]][] =
+    options.sizes || options.selections
+      ? list("sizes", ["1000"]).map(size => [Number(size), list("selections", ["best-fit", "sequential"]) as SelectionMode[]])
+      : [
+          [1000, ["best-fit", "sequential"]],
+          [10000, ["best-fit", "sequential"]]
+        ];
+  const seed = Number(options.seed || 1);
+  const repeat = Math.max(1, Number(options.repeat || 1));
+  const saved: BenchRecord[] = options.compare ? JSON.parse(fs.readFileSync(options.compare, "utf8")) : [];
+  const records: BenchRecord[] = [];
+
+  console.log(formatRow(["dataset", "algorithm", "selection", "placed", "fullness", "time, ms", "checksum", options.compare ? "change" : ""]));
+  for (const kind of kinds) {
+    for (const [size, selections] of suite) {
+      const dataset = generateDataset(kind, size, seed);
+      for (const algorithm of algorithms) {
+        for (const selection of selections) {
+          const benchCase = { dataset: dataset.name, algorithm, selection };
+          let best: ReturnType<typeof run>;
+          for (let i = 0; i < repeat; i++) {
+            const attempt = run(dataset, benchCase);
+            if (!best || attempt.time < best.time) best = attempt;
+          }
+
+          const record: BenchRecord = {
+            ...benchCase,
+            boxes: size,
+            placed: best.boxes.length,
+            fullness: best.fullness,
+            time: best.time,
+            checksum: checksum(best.boxes)
+          };
+          records.push(record);
+
+          const match = saved.find(
+            item => item.dataset === record.dataset && item.algorithm === algorithm && item.selection === selection
+          );
+          console.log(
+            formatRow([
+              record.dataset,
+              algorithm,
+              selection,
+              record.placed,
+              record.fullness.toFixed(4),
+              record.time.toFixed(1),
+              record.checksum,
+              options.compare ? describeChange(record, match) : ""
+            ])
+          );
+        }
+      }
+    }
+  }
+
+  const untimed = records.map(({ time, ...record }) => record);
+  if (options.save) fs.writeFileSync(options.save, JSON.stringify(untimed, null, 2));
+  if (options["save-times"]) fs.writeFileSync(options["save-times"], JSON.stringify(records, null, 2));
+}
+
+main();
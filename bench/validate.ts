@@ -0,0 +1,184 @@
+import { createPacker } from "../src/packer/createPacker";
+import {
+  LayoutContainer,
+  LayoutExpectation,
+  LayoutPlacement,
+  PackAlgorithm,
+  PackerOptions,
+  PlacementHeuristic,
+  RotationPolicy,
+  SelectionMode,
+  ViolationKind
+} from "../src/packer/types";
+import { validateLayout } from "../src/packer/validation";
+import { DATASET_KINDS, Dataset, generateDataset } from "./datasets";
+
+const ALGORITHMS: PackAlgorithm[] = ["maxrects", "skyline-bottom-left", "skyline-min-waste", "guillotine"];
+const HEURISTICS: PlacementHeuristic[] = ["contact-point", "best-short-side-fit", "best-long-side-fit", "best-area-fit", "bottom-left"];
+const ROTATIONS: RotationPolicy[] = ["allowed", "forbidden", "forced"];
+const SELECTIONS: SelectionMode[] = ["best-fit", "sequential"];
+const SPACINGS = [0, 3];
+const MARGINS = [0, 5];
+
+// Small datasets keep the whole matrix fast, the benchmark covers the large ones
+const BOXES = 120;
+
+// A layout that breaks one rule, in a 100x100 container unless the container says otherwise
+type BrokenLayout = {
+  name: string;
+  kind: ViolationKind;
+  placements: LayoutPlacement[];
+  container?: Partial<LayoutContainer>;
+  expected?: LayoutExpectation;
+};
+
+// A box of 40x30 and a box of 20x20, placed side by side
+const LISTED = {
+  boxes: [
+    { width: 40, height: 30 },
+    { width: 20, height: 20 }
+  ]
+};
+const FIRST = { left: 0, top: 0, right: 40, bottom: 30, id: 0 };
+const SECOND = { left: 40, top: 0, right: 60, bottom: 20, id: 1 };
+const L_SHAPE = [
+  { left: 0, top: 0, right: 100, bottom: 50 },
+  { left: 0, top: 50, right: 50, bottom: 100 }
+];
+const BROKEN_LAYOUTS: BrokenLayout[] = [
+  { name: "overlapping boxes", kind: "overlap", placements: [FIRST, moveTo(SECOND, 30, 0)] },
+  { name: "boxes closer than the spacing", kind: "spacing", placements: [FIRST, SECOND], container: { spacing: 5 } },
+  { name: "a box outside the container", kind: "out-of-bounds", placements: [moveTo(SECOND, 90, 0)] },
+  { name: "a box in the margins", kind: "out-of-bounds", placements: [FIRST], container: { margins: 5 } },
+  { name: "a box outside the shape", kind: "out-of-bounds", placements: [moveTo(SECOND, 60, 60)], container: { shape: L_SHAPE } },
+  {
+    name: "a box on an obstacle",
+    kind: "obstacle",
+    placements: [FIRST],
+    container: { obstacles: [{ left: 10, top: 10, width: 20, height: 20 }] }
+  },
+  { name: "a box of another size", kind: "size", placements: [{ ...FIRST, bottom: 31 }], expected: LISTED },
+  {
+    name: "a turned box",
+    kind: "rotation",
+    placements: [{ ...FIRST, right: 30, bottom: 40 }],
+    container: { rotation: "forbidden" },
+    expected: LISTED
+  },
+  { name: "a box placed twice", kind: "duplicate-id", placements: [SECOND, moveTo(SECOND, 40, 50)], expected: LISTED },
+  { name: "a box without an identifier", kind: "missing-id", placements: [{ ...SECOND, id: undefined }], expected: LISTED },
+  { name: "a box that is not listed", kind: "unknown-id", placements: [{ ...SECOND, id: 7 }], expected: LISTED },
+  { name: "a listed box left out", kind: "missing-box", placements: [FIRST], expected: { ...LISTED, complete: true } }
+];
+
+/**
+ * Moves a placement to a new top-left corner, keeping its size.
+ *
+ * @param placement - The placement to be moved.
+ * @param left - The new left edge.
+ * @param top - The new top edge.
+ * @returns The moved placement.
+ */
+function moveTo(placement: LayoutPlacement, left: number, top: number): LayoutPlacement {
+  return { ...placement, left, top, right: left + placement.right - placement.left, bottom: top + placement.bottom - placement.top };
+}
+
+/**
+ * Packs a dataset with the given options and checks the layout.
+ *
+ * @param dataset - The dataset to be packed.
+ * @param algorithm - The packing algorithm.
+ * @param options - The packing options.
+ * @returns The message of the first violation, or undefined if the layout is valid.
+ */
+function check(dataset: Dataset, algorithm: PackAlgorithm, options: PackerOptions) {
+  const packer = createPacker(algorithm, dataset.width, dataset.height);
+  packer.setOptions(options);
+  dataset.boxes.forEach((box, id) => packer.addBox(box.width, box.height, id));
+
+  const container = { width: dataset.width, height: dataset.height, spacing: options.spacing, margins: options.margins };
+  const expected = { boxes: dataset.boxes.map((box, id) => ({ ...box, id, options: { rotation: options.rotation } })) };
+  const [violation] = validateLayout(container, packer.pack(), expected);
+  return violation && violation.message;
+}
+
+/**
+ * Checks that `validateLayout` accepts a valid layout and reports the violation of every broken layout,
+ * the hand-made ones and the layouts of a packing with a box moved onto another one or out of the container.
+ *
+ * @returns The number of layouts judged wrongly.
+ */
+function checkBrokenLayouts() {
+  const dataset = generateDataset("uniform", BOXES);
+  const container = { width: dataset.width, height: dataset.height };
+  const packer = createPacker("maxrects", dataset.width, dataset.height);
+  dataset.boxes.forEach((box, id) => packer.addBox(box.width, box.height, id));
+  const packed: LayoutPlacement[] = packer.pack().map(({ left, top, right, bottom, id }) => ({ left, top, right, bottom, id }));
+  const [first, second] = packed;
+  const layouts: BrokenLayout[] = [
+    ...BROKEN_LAYOUTS,
+    { name: "a packed box moved onto another one", kind: "overlap", placements: [first, moveTo(second, first.left, first.top)], container },
+    {
+      name: "a packed box moved out of the container",
+      kind: "out-of-bounds",
+      placements: [first, moveTo(second, dataset.width, 0)],
+      container
+    }
+  ];
+
+  let wrong = 0;
+  if (validateLayout({ width: 100, height: 100 }, [FIRST, SECOND], { ...LISTED, complete: true }).length) {
+    wrong++;
+    console.error("A valid layout is reported as invalid");
+  }
+  if (validateLayout(container, packed).length) {
+    wrong++;
+    console.error("A packed layout is reported as invalid");
+  }
+  for (const { name, kind, placements, container, expected } of layouts) {
+    const kinds = validateLayout({ width: 100, height: 100, ...container }, placements, expected).map(violation => violation.kind);
+    if (kinds.includes(kind)) continue;
+    wrong++;
+    console.error(`${name}: expected a violation of kind "${kind}", got ${kinds.length ? kinds.join(", ") : "none"}`);
+  }
+
+  console.log(`${layouts.length + 2} known layouts checked, ${wrong} judged wrongly`);
+  return wrong;
+}
+
+/**
+ * Packs the generated datasets with every algorithm, heuristic, rotation policy, selection mode, spacing and margin
+ * and checks every layout with `validateLayout`, after checking that `validateLayout` finds the violations
+ * of broken layouts. Exits with 1 if any layout is invalid or any broken layout goes unnoticed.
+ */
+function main() {
+  const wrong = checkBrokenLayouts();
+  let checked = 0;
+  let invalid = 0;
+  for (const kind of DATASET_KINDS) {
+    const dataset = generateDataset(kind, BOXES);
+    for (const algorithm of ALGORITHMS) {
+      for (const heuristic of HEURISTICS) {
+        for (const rotation of ROTATIONS) {
+          for (const selection of SELECTIONS) {
+            for (const spacing of SPACINGS) {
+              for (const margins of MARGINS) {
+                const options = { heuristic, rotation, selection, spacing, margins };
+                const message = check(dataset, algorithm, options);
+                checked++;
+                if (!message) continue;
+                invalid++;
+                console.error(`${dataset.name} ${algorithm} ${JSON.stringify(options)}: ${message}`);
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  console.log(`${checked} layouts checked, ${invalid} invalid`);
+  process.exitCode = invalid || wrong ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,11 @@
+import typescript from "rollup-plugin-typescript";
+
+module.exports = {
+  input: "bench/index.ts",
+  external: ["fs"],
+  output: {
+    file: ".tmp/bench.js",
+    format: "cjs"
+  },
+  plugins: [typescript()]
+};
@@ -2,22 +2,45 @@ import typescript from "rollup-plugin-typescript";
 import copy from "rollup-plugin-copy";
 import json from "@rollup/plugin-json";
 
-module.exports = {
-  input: "src/index.ts",
-  output: {
-    dir: "dist",
-    format: "cjs",
-    name: "projectbundle",
-    sourcemap: true
+module.exports = [
+  {
+    input: "src/index.ts",
+    output: {
+      dir: "dist",
+      format: "cjs",
+      name: "projectbundle",
+      sourcemap: true
+    },
+    plugins: [
+      typescript(),
+      json({
+        preferConst: true
+      }),
+      copy({
+        targets: ["src/www/index.html", "src/www/style.css", "src/blocksData.json"],
+        outputFolder: "dist"
+      })
+    ]
   },
-  plugins: [
-    typescript(),
-    json({
-      preferConst: true
-    }),
-    copy({
-      targets: ["src/www/index.html", "src/www/style.css", "src/blocksData.json"],
-      outputFolder: "dist"
-    })
-  ]
-};
+  // The worker is bundled on its own, so it loads as a single script in a browser and in Node.js
+  {
+    input: "src/worker.ts",
+    output: {
+      dir: "dist",
+      format: "cjs",
+      sourcemap: true
+    },
+    plugins: [typescript()]
+  },
+  // The command-line tools run in Node.js, each is bundled on its own with a shebang to run as an executable
+  ...["src/cli.ts", "src/atlasCli.ts"].map(input => ({
+    input,
+    external: ["fs", "path", "zlib"],
+    output: {
+      dir: "dist",
+      format: "cjs",
+      banner: "#!/usr/bin/env node"
+    },
+    plugins: [typescript()]
+  }))
+];
@@ -0,0 +1,10 @@
+import typescript from "rollup-plugin-typescript";
+
+module.exports = {
+  input: "test/index.ts",
+  output: {
+    file: ".tmp/test.js",
+    format: "cjs"
+  },
+  plugins: [typescript()]
+};
@@ -0,0 +1,10 @@
+import typescript from "rollup-plugin-typescript";
+
+module.exports = {
+  input: "bench/validate.ts",
+  output: {
+    file: ".tmp/validate.js",
+    format: "cjs"
+  },
+  plugins: [typescript()]
+};
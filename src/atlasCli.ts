@@ -0,0 +1,104 @@
+import { buildAtlas, readSprites, writeAtlas } from "./packer/atlas";
+import { PROBLEM_SCHEMA } from "./packer/format";
+import { AtlasOptions, PackAlgorithm, RotationPolicy } from "./packer/types";
+
+const ALGORITHMS = PROBLEM_SCHEMA.properties.algorithm.enum;
+const ROTATIONS = ["allowed", "forbidden"];
+
+const USAGE = `Usage: rect-atlas <sprites directory> [options]
+  <sprites directory>      Directory of the PNG sprites, the file names become the frame names
+  --output <path>          Path of the atlas without extension, <path>.png and <path>.json are written (default: atlas)
+  --algorithm <name>       ${ALGORITHMS.join(", ")} (default: maxrects)
+  --padding <pixels>       Gap between the sprites (default: 0)
+  --border <pixels>        Gap between the sprites and the edges of the atlas (default: 0)
+  --rotation <policy>      ${ROTATIONS.join(", ")} (default: allowed)
+  --trim <yes|no>          Cuts off the transparent borders of the sprites (default: yes)
+  --power-of-two <yes|no>  Both sides of the atlas are powers of two (default: no)
+  --max-width <pixels>     Largest width of the atlas
+  --max-height <pixels>    Largest height of the atlas
+
+Exits with 1 when sprites are left out of the atlas, with 2 when the arguments or the sprites are invalid.`;
+
+/**
+ * Reads the command line options.
+ *
+ * @param args - The arguments after the script name.
+ * @returns The options by name and the positional arguments.
+ */
+function parseArgs(args: string[]) {
+  const options: { [name: string]: string } = {};
+  const directories: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith("--")) {
+      directories.push(args[i]);
+    } else if (i + 1 < args.length) {
+      options[args[i].slice(2)] = args[++i];
+    } else {
+      throw new Error(`Missing value of ${args[i]}`);
+    }
+  }
+  return { options, directories };
+}
+
+/**
+ * Reads the atlas options from the command line options.
+ *
+ * @throws Error naming the first invalid option.
+ */
+function atlasOptions(options: { [name: string]: string }): AtlasOptions {
+  const number = (name: string) => {
+    if (options[name] === undefined) return undefined;
+    const value = Number(options[name]);
+    if (!options[name].trim() || !Number.isInteger(value) || value < 0) {
+      throw new Error(`--${name}: expected a whole number of pixels, got "${options[name]}"`);
+    }
+    return value;
+  };
+  const choice = (name: string, allowed: string[]) => {
+    if (options[name] !== undefined && !allowed.includes(options[name])) {
+      throw new Error(`--${name}: expected one of ${allowed.join(", ")}, got "${options[name]}"`);
+    }
+    return options[name];
+  };
+
+  return {
+    algorithm: choice("algorithm", ALGORITHMS) as PackAlgorithm,
+    padding: number("padding"),
+    border: number("border"),
+    rotation: choice("rotation", ROTATIONS) as RotationPolicy,
+    trim: choice("trim", ["yes", "no"]) !== "no",
+    powerOfTwo: choice("power-of-two", ["yes", "no"]) === "yes",
+    maxWidth: number("max-width"),
+    maxHeight: number("max-height")
+  };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes("--help")) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const { options, directories } = parseArgs(args);
+  if (directories.length !== 1) throw new Error(`Expected a single directory of sprites, got ${directories.length}`);
+  const settings = atlasOptions(options);
+  const sprites = readSprites(directories[0]);
+  if (!sprites.length) throw new Error(`No PNG files in ${directories[0]}`);
+
+  const atlas = buildAtlas(sprites, settings);
+  const output = options.output || "atlas";
+  writeAtlas(atlas, `${output}.png`, `${output}.json`);
+
+  const { width, height } = atlas.image;
+  console.log(`${output}.png: ${width}x${height}, ${sprites.length - atlas.unplaced.length} of ${sprites.length} sprites`);
+  if (atlas.unplaced.length) console.error(`Left out: ${atlas.unplaced.join(", ")}`);
+  return atlas.unplaced.length ? 1 : 0;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(error.message);
+  process.exitCode = 2;
+}
@@ -0,0 +1,177 @@
+import * as fs from "fs";
+import { readBoxList } from "./packer/boxList";
+import { toDxf } from "./packer/dxf";
+import { FormatError } from "./packer/errors";
+import { FORMAT_VERSION, PROBLEM_FORMAT, readProblem, solveProblem, writeSolution } from "./packer/format";
+import { measureLayout } from "./packer/metrics";
+import { toSvg } from "./packer/svg";
+import { BoxListFormat, DxfUnits, PackProblem, PackSolution } from "./packer/types";
+
+const OUTPUT_FORMATS = ["table", "json", "svg", "dxf"];
+const DXF_UNITS: DxfUnits[] = ["unitless", "in", "ft", "mm", "cm", "m"];
+
+const USAGE = `Usage: rect-pack <boxes file> --width <number> --height <number> [options]
+  <boxes file>             JSON list of boxes like blocksData.json, or CSV lines width,height,qty,label ("-" reads stdin)
+  --width <number>         Width of the container
+  --height <number>        Height of the container
+  --algorithm <name>       maxrects, skyline-bottom-left, skyline-min-waste, guillotine (default: maxrects)
+  --direction <name>       Packing direction: none, left, top (default: none)
+  --rotation <policy>      allowed, forbidden, forced (default: allowed)
+  --spacing <number>       Gap between the boxes (default: 0)
+  --margins <number>       Gap between the boxes and the edges of the container (default: 0)
+  --input-format <name>    json, csv (default: csv for .csv files, json otherwise)
+  --format <name>          Output: ${OUTPUT_FORMATS.join(", ")} (default: table)
+  --scale <number>         Pixels per unit of the SVG output (default: 1)
+  --units <name>           Units of the DXF output: ${DXF_UNITS.join(", ")} (default: mm)
+  --output <file>          Writes the output to a file instead of stdout
+
+Exits with 1 when boxes are left unplaced, with 2 when the arguments or the boxes are invalid.`;
+
+// Maps the paths of the problem document to the flags they were read from
+const FLAGS: { [path: string]: string } = {
+  "$.algorithm": "--algorithm",
+  "$.container.width": "--width",
+  "$.container.height": "--height",
+  "$.options.direction": "--direction",
+  "$.options.rotation": "--rotation",
+  "$.options.spacing": "--spacing",
+  "$.options.margins": "--margins"
+};
+
+/**
+ * Reads the command line options.
+ *
+ * @param args - The arguments after the script name.
+ * @returns The options by name and the positional arguments.
+ */
+function parseArgs(args: string[]) {
+  const options: { [name: string]: string } = {};
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith("--")) {
+      files.push(args[i]);
+    } else if (i + 1 < args.length) {
+      options[args[i].slice(2)] = args[++i];
+    } else {
+      throw new Error(`Missing value of ${args[i]}`);
+    }
+  }
+  return { options, files };
+}
+
+/**
+ * Parses a number given as a flag, leaving an invalid one for the problem schema to report.
+ */
+function numberOption(value: string | undefined) {
+  return value === undefined ? undefined : value.trim() ? Number(value) : NaN;
+}
+
+/**
+ * Formats the summary of a solution: the container, the totals and a row for every line of the list of boxes.
+ * The used area is the area of the placed boxes divided by the area of the container. The fullness of the packer
+ * leaves out the free space at the far corner of the container, so it stays high when boxes are left unplaced.
+ *
+ * @param problem - The problem.
+ * @param solution - The solution of the problem.
+ * @returns The table.
+ */
+function formatTable(problem: PackProblem, solution: PackSolution) {
+  const { metrics } = solution;
+  const total = metrics.placed + metrics.unplaced + metrics.rejected;
+  const placed = solution.bins.length ? solution.bins[0].placed : [];
+  const { utilization } = measureLayout({ ...problem.container, margins: problem.options.margins }, placed);
+  const lines = [
+    `Container  ${problem.container.width}x${problem.container.height}, ${problem.algorithm}`,
+    `Placed     ${metrics.placed} of ${total} boxes`,
+    `Used area  ${(utilization * 100).toFixed(2)}% of the container`,
+    ""
+  ];
+
+  // The boxes of the list get the identifiers 0, 1, 2... in the order of the list
+  const count = (boxes: { id: number }[], id: number) => boxes.filter(box => box.id === id).length;
+  const left = [...solution.unplaced, ...solution.rejected];
+  const rows = problem.boxes.map(({ width, height, options = {} }, id) => [
+    id,
+    `${width}x${height}`,
+    options.label || "",
+    count(placed, id),
+    count(left, id)
+  ]);
+
+  const widths = [6, 14, 24, 8, 8];
+  const formatRow = (cells: (string | number)[]) =>
+    cells
+      .map((cell, i) => String(cell).padEnd(widths[i]))
+      .join("")
+      .trimEnd();
+  lines.push(formatRow(["id", "size", "label", "placed", "unplaced"]), ...rows.map(formatRow));
+  return lines.join("\n") + "\n";
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  if (!args.length || args.includes("--help")) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const { options, files } = parseArgs(args);
+  if (files.length !== 1) throw new Error(`Expected a single file of boxes, got ${files.length}`);
+  const [file] = files;
+  const inputFormat = (options["input-format"] || (file.toLowerCase().endsWith(".csv") ? "csv" : "json")) as BoxListFormat;
+  if (inputFormat !== "json" && inputFormat !== "csv") throw new Error(`Unknown input format: ${inputFormat}`);
+  const format = options.format || "table";
+  if (!OUTPUT_FORMATS.includes(format)) throw new Error(`Unknown output format: ${format}`);
+  const units = (options.units || "mm") as DxfUnits;
+  if (!DXF_UNITS.includes(units)) throw new Error(`Unknown units: ${units}`);
+
+  const text = fs.readFileSync(file === "-" ? 0 : file, "utf8");
+  const problem: PackProblem = {
+    format: PROBLEM_FORMAT,
+    version: FORMAT_VERSION,
+    algorithm: (options.algorithm || "maxrects") as PackProblem["algorithm"],
+    container: { width: numberOption(options.width), height: numberOption(options.height) },
+    options: {
+      direction: options.direction as PackProblem["options"]["direction"],
+      rotation: options.rotation as PackProblem["options"]["rotation"],
+      spacing: numberOption(options.spacing),
+      margins: numberOption(options.margins)
+    },
+    boxes: readBoxList(text, inputFormat)
+  };
+  try {
+    readProblem(problem);
+  } catch (error) {
+    if (!(error instanceof FormatError)) throw error;
+    throw new Error(error.issues.map(issue => `${FLAGS[issue.path] || issue.path}: ${issue.message}`).join("\n"));
+  }
+
+  const solution = solveProblem(problem);
+  const placed = solution.bins.length ? solution.bins[0].placed : [];
+  const container = { ...problem.container, margins: problem.options.margins };
+  let output: string;
+  switch (format) {
+    case "json":
+      output = writeSolution(solution) + "\n";
+      break;
+    case "svg":
+      output = toSvg(container, placed, { scale: numberOption(options.scale) || 1 });
+      break;
+    case "dxf":
+      output = toDxf(container, placed, { units });
+      break;
+    default:
+      output = formatTable(problem, solution);
+  }
+
+  if (options.output) fs.writeFileSync(options.output, output);
+  else process.stdout.write(output);
+  return solution.metrics.unplaced + solution.metrics.rejected > 0 ? 1 : 0;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(error.message);
+  process.exitCode = 2;
+}
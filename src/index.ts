@@ -1,36 +1,91 @@
-import Packer from "./packer/Packer";
-import { PackDirection, RectCoord, Size } from "./packer/types";
+import { readBoxList, writeBoxList } from "./packer/boxList";
+import { createColorMapGenerator, sizeKeyOf } from "./packer/colors";
+import { FORMAT_VERSION, PROBLEM_FORMAT, readProblem, writeProblem } from "./packer/format";
+import { createJobPacker } from "./packer/jobs";
+import PackWorkerClient from "./packer/PackWorkerClient";
+import {
+  AsyncPackOptions,
+  BoxSpec,
+  PackAlgorithm,
+  PackDirection,
+  PackJob,
+  PackProblem,
+  PackProgress,
+  PackResult,
+  PackTrace,
+  Rect,
+  RectCoord,
+  Size,
+  TraceCandidate
+} from "./packer/types";
 
 const template = document.getElementById("rect-data-template") as HTMLTemplateElement;
 const containerDiv = document.querySelector(".container") as HTMLElement;
 const fullnessSpan = document.getElementById("fullness") as HTMLElement;
+const packingStatusSpan = document.getElementById("packing-status") as HTMLElement;
 const rectList = document.querySelector(".rect-list") as HTMLElement;
 
 const rectWidthInput = document.getElementById("rect-width") as HTMLInputElement;
 const rectHeightInput = document.getElementById("rect-height") as HTMLInputElement;
+const rectQuantityInput = document.getElementById("rect-quantity") as HTMLInputElement;
 const addRectButton = document.getElementById("add-rect-button") as HTMLElement;
+const clearListButton = document.getElementById("clear-list-button") as HTMLElement;
 
 const containerWidthInput = document.getElementById("container-width") as HTMLInputElement;
 const containerHeightInput = document.getElementById("container-height") as HTMLInputElement;
 const setupContainerButton = document.getElementById("setup-container-button") as HTMLElement;
 
 const packingDirectionSelect = document.getElementById("packing-direction") as HTMLSelectElement;
-
-let blocksParams: Size[] = [];
+const packingAlgorithmSelect = document.getElementById("packing-algorithm") as HTMLSelectElement;
+
+const importTextArea = document.getElementById("import-text") as HTMLTextAreaElement;
+const importFileInput = document.getElementById("import-file") as HTMLInputElement;
+const importButton = document.getElementById("import-button") as HTMLElement;
+const exportCsvButton = document.getElementById("export-csv-button") as HTMLElement;
+const exportJsonButton = document.getElementById("export-json-button") as HTMLElement;
+const importStatusSpan = document.getElementById("import-status") as HTMLElement;
+
+const traceButton = document.getElementById("trace-button") as HTMLElement;
+const tracePrevButton = document.getElementById("trace-prev-button") as HTMLElement;
+const traceNextButton = document.getElementById("trace-next-button") as HTMLElement;
+const traceStepInput = document.getElementById("trace-step") as HTMLInputElement;
+const traceBoxSelect = document.getElementById("trace-box") as HTMLSelectElement;
+const traceFreeAfterInput = document.getElementById("trace-free-after") as HTMLInputElement;
+const traceInfoSpan = document.getElementById("trace-info") as HTMLElement;
+const traceContainerDiv = document.querySelector(".trace-container") as HTMLElement;
+
+// The state of the page is kept in the URL hash, so a layout can be shared by link, and in the local storage
+const STORAGE_KEY = "rect-packing-demo";
+
+type Block = BoxSpec & { id: number };
+type BlockChanges = Size & { quantity: number };
+
+let blocksParams: Block[] = [];
+let nextBlockId = 0;
 let containerSize: Size = { width: 350, height: 300 };
 
 containerWidthInput.value = String(containerSize.width);
 containerHeightInput.value = String(containerSize.height);
 
-const packer = new Packer(containerSize.width, containerSize.height, "none");
+let packWorker = createPackWorker();
+let packingController: AbortController | undefined;
+let tracingController: AbortController | undefined;
+// The recorded steps of the packing, re-recorded in the background on every change while the step-through view is open
+let trace: PackTrace | undefined;
 
 addRectButton.onclick = event => {
   event.preventDefault();
-  const rect: Size = {
+  const rect: BlockChanges = {
     width: parseInt(rectWidthInput.value),
-    height: parseInt(rectHeightInput.value)
+    height: parseInt(rectHeightInput.value),
+    quantity: parseInt(rectQuantityInput.value) || 1
   };
-  addBlock(rect, blocksParams.length);
+  addBlock(rect);
+};
+
+clearListButton.onclick = event => {
+  event.preventDefault();
+  setBlocks([]);
 };
 
 setupContainerButton.onclick = event => {
@@ -39,94 +94,380 @@ setupContainerButton.onclick = event => {
 };
 
 packingDirectionSelect.onchange = event => {
-  changeDirection(packingDirectionSelect.value as PackDirection);
+  update();
+};
+
+packingAlgorithmSelect.onchange = event => {
+  update();
+};
+
+importButton.onclick = event => {
+  event.preventDefault();
+  importText(importTextArea.value);
+};
+
+importFileInput.onchange = async () => {
+  const file = importFileInput.files[0];
+  if (!file) return;
+  const text = await file.text();
+  importTextArea.value = text;
+  importText(text, file.name);
+  importFileInput.value = "";
+};
+
+exportCsvButton.onclick = event => {
+  event.preventDefault();
+  exportText("boxes.csv", writeBoxList(blocksParams, "csv"), "text/csv");
+};
+
+exportJsonButton.onclick = event => {
+  event.preventDefault();
+  exportText("boxes.json", writeProblem(createProblem()), "application/json");
+};
+
+traceButton.onclick = event => {
+  event.preventDefault();
+  recordTrace();
+};
+
+tracePrevButton.onclick = event => {
+  event.preventDefault();
+  showTraceStep(parseInt(traceStepInput.value) - 1);
+};
+
+traceNextButton.onclick = event => {
+  event.preventDefault();
+  showTraceStep(parseInt(traceStepInput.value) + 1);
+};
+
+traceStepInput.oninput = () => showTraceStep(parseInt(traceStepInput.value));
+traceBoxSelect.onchange = () => drawTraceStep();
+traceFreeAfterInput.onchange = () => drawTraceStep();
+
+window.onhashchange = () => {
+  const problem = loadState();
+  if (problem) applyProblem(problem);
 };
 
 function resizeContainer(width: number, height: number) {
   containerSize.width = width;
   containerSize.height = height;
-  packer.resizeContainer(width, height);
   update();
 }
 
-function addBlocks(blocks: Size[]) {
-  blocks.forEach((block, i) => {
-    packer.addBox(block.width, block.height, i);
-  });
+function setBlocks(blocks: BoxSpec[]) {
+  blocksParams = blocks.map(({ width, height, options }, id) => ({ width, height, id, options: { ...options } }));
+  nextBlockId = blocksParams.length;
+  fillRectList();
+  update();
+}
 
-  blocksParams = blocks;
+function addBlock(block: BlockChanges) {
+  const { width, height, quantity } = block;
+  const newBlock: Block = { width, height, id: nextBlockId++, options: { quantity } };
+  blocksParams.push(newBlock);
   fillRectList();
   update();
 }
 
-function addBlock(block: Size, id: number) {
-  packer.addBox(block.width, block.height, id);
-  blocksParams.push(block);
+function editBlock(id: number, changes: BlockChanges) {
+  const block = blocksParams.find(item => item.id === id);
+  const { width, height, quantity } = changes;
+  if (!(width > 0 && height > 0 && quantity >= 0)) {
+    // Show the values of the block again instead of the invalid ones
+    fillRectList();
+    return;
+  }
+
+  block.width = width;
+  block.height = height;
+  block.options = { ...block.options, quantity };
+  update();
+}
+
+function duplicateBlock(id: number) {
+  const index = blocksParams.findIndex(item => item.id === id);
+  const block = blocksParams[index];
+  const copy: Block = { ...block, id: nextBlockId++, options: { ...block.options } };
+  blocksParams.splice(index + 1, 0, copy);
   fillRectList();
   update();
 }
 
-function changeDirection(direction: PackDirection) {
-  packer.setDirection(direction);
+function deleteBlock(id: number) {
+  blocksParams = blocksParams.filter(item => item.id !== id);
+  fillRectList();
   update();
 }
 
-function pack() {
-  const boxes = packer.pack();
-  const blockCoordinates: RectCoord[] = boxes.map(({ top, left, right, bottom, id }) => ({
-    top,
-    left,
-    right,
-    bottom,
-    initialOrder: id
-  }));
-  const fullness = packer.fullness;
+function createProblem(): PackProblem {
+  return {
+    format: PROBLEM_FORMAT,
+    version: FORMAT_VERSION,
+    algorithm: packingAlgorithmSelect.value as PackAlgorithm,
+    container: { width: containerSize.width, height: containerSize.height },
+    options: { direction: packingDirectionSelect.value as PackDirection },
+    boxes: blocksParams.map(({ width, height, options }) => ({ width, height, options }))
+  };
+}
+
+function applyProblem(problem: PackProblem) {
+  if (problem.container) {
+    containerSize = { width: problem.container.width, height: problem.container.height };
+    containerWidthInput.value = String(containerSize.width);
+    containerHeightInput.value = String(containerSize.height);
+  }
+  if (problem.algorithm) packingAlgorithmSelect.value = problem.algorithm;
+  if (problem.options && problem.options.direction) packingDirectionSelect.value = problem.options.direction;
+  setBlocks(problem.boxes);
+}
+
+function importText(text: string, fileName = "") {
+  try {
+    const trimmed = text.trim();
+    const isJson = fileName ? fileName.toLowerCase().endsWith(".json") : trimmed.startsWith("[") || trimmed.startsWith("{");
+    // A JSON object is a problem document with the container settings, an array or CSV lines are a list of boxes
+    if (isJson && trimmed.startsWith("{")) applyProblem(readProblem(trimmed));
+    else setBlocks(readBoxList(text, isJson ? "json" : "csv"));
+    importStatusSpan.textContent = `Імпортовано прямокутників: ${blocksParams.length}`;
+  } catch (error) {
+    importStatusSpan.textContent = `Помилка імпорту: ${error.message}`;
+  }
+}
+
+function exportText(fileName: string, text: string, type: string) {
+  importTextArea.value = text;
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function saveState() {
+  const state = JSON.stringify(createProblem());
+  history.replaceState(null, "", "#" + encodeURIComponent(state));
+  try {
+    localStorage.setItem(STORAGE_KEY, state);
+  } catch (error) {
+    // The storage is not available, e.g. in a private window, the URL still holds the state
+  }
+}
 
+function loadState(): PackProblem | undefined {
+  try {
+    const saved = location.hash.length > 1 ? decodeURIComponent(location.hash.slice(1)) : localStorage.getItem(STORAGE_KEY);
+    return saved ? readProblem(saved) : undefined;
+  } catch (error) {
+    console.error("Error reading the saved state:", error.message);
+    return undefined;
+  }
+}
+
+function createPackWorker() {
+  try {
+    const worker = new Worker("./worker.js");
+    const client = new PackWorkerClient(message => worker.postMessage(message));
+    worker.onmessage = event => client.receive(event.data);
+    worker.onerror = () => {
+      // The worker script cannot be loaded, e.g. when the page is opened from the file system
+      packWorker = undefined;
+      update();
+    };
+    return client;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function createJob(): PackJob {
   return {
-    fullness,
-    blockCoordinates
+    algorithm: packingAlgorithmSelect.value as PackAlgorithm,
+    width: containerSize.width,
+    height: containerSize.height,
+    options: { direction: packingDirectionSelect.value as PackDirection },
+    boxes: blocksParams
   };
 }
 
+async function pack(options: AsyncPackOptions): Promise<PackResult> {
+  if (packWorker) return packWorker.pack(createJob(), options);
+
+  // Without a worker, e.g. when the page is opened from the file system, the page packs the boxes itself
+  const packer = createJobPacker(createJob());
+  await packer.packAsync(options);
+  return packer.getResult();
+}
+
 function update() {
-  const { fullness, blockCoordinates } = pack();
-  drawBlocks(containerSize, fullness, blockCoordinates);
+  saveState();
+  if (trace) recordTrace();
+  if (packingController) packingController.abort();
+  const controller = new AbortController();
+  packingController = controller;
+
+  const onProgress = (progress: PackProgress) => {
+    packingStatusSpan.textContent = `Пакування: ${progress.placed} / ${progress.total}`;
+  };
+
+  pack({ signal: controller.signal, onProgress })
+    .then(({ fullness, placed }) => {
+      const blockCoordinates: RectCoord[] = placed.map(({ top, left, right, bottom, id }) => ({
+        top,
+        left,
+        right,
+        bottom,
+        initialOrder: id
+      }));
+      packingStatusSpan.textContent = "";
+      drawBlocks(containerSize, fullness, blockCoordinates);
+    })
+    .catch(error => {
+      if (error.name !== "AbortError") console.error("Error packing the blocks:", error.message);
+    });
 }
 
-function fillRectList() {
-  rectList.innerHTML = "";
-  for (const block of blocksParams) {
-    const rectItem = template.content.cloneNode(true) as HTMLElement;
-    (<HTMLElement>rectItem.querySelector(".width")).innerHTML = block.width + "";
-    (<HTMLElement>rectItem.querySelector(".height")).innerHTML = block.height + "";
-    rectList.appendChild(rectItem);
-  }
+async function packTraced(options: AsyncPackOptions): Promise<PackTrace> {
+  if (packWorker) return packWorker.trace(createJob(), options);
+
+  const tracer = createJobPacker(createJob());
+  tracer.setTracing(true);
+  await tracer.packAsync(options);
+  return tracer.getTrace();
 }
 
-function getRandomColor() {
-  var letters = "0123456789ABCDEF".split("");
-  var color = "#";
-  for (var i = 0; i < 6; i++) {
-    color += letters[Math.round(Math.random() * 15)];
+function recordTrace() {
+  if (tracingController) tracingController.abort();
+  const controller = new AbortController();
+  tracingController = controller;
+  traceInfoSpan.textContent = "Запис кроків пакування...";
+
+  packTraced({ signal: controller.signal })
+    .then(result => {
+      trace = result;
+      traceStepInput.max = String(Math.max(0, trace.steps.length - 1));
+      traceContainerDiv.hidden = false;
+      showTraceStep(parseInt(traceStepInput.value) || 0);
+    })
+    .catch(error => {
+      if (error.name !== "AbortError") console.error("Error tracing the packing:", error.message);
+    });
+}
+
+function showTraceStep(index: number) {
+  if (!trace) return;
+  const stepIndex = Math.max(0, Math.min(index, trace.steps.length - 1));
+  traceStepInput.value = String(stepIndex);
+
+  // The boxes scored in the step, the best scored first, the chosen box is selected
+  const step = trace.steps[stepIndex];
+  const best = new Map<string, TraceCandidate>();
+  for (const candidate of step ? step.candidates : []) {
+    const key = candidateKey(candidate);
+    if (!best.has(key) || best.get(key).score < candidate.score) best.set(key, candidate);
   }
-  return color;
+  traceBoxSelect.innerHTML = "";
+  for (const [key, candidate] of [...best].sort((a, b) => b[1].score - a[1].score)) {
+    const option = document.createElement("option");
+    option.value = key;
+    option.textContent = `${key} (${sizeOf(candidate)}), найкраща оцінка ${formatScore(candidate.score)}`;
+    traceBoxSelect.append(option);
+  }
+  if (step && step.chosen) traceBoxSelect.value = candidateKey(step.chosen);
+  drawTraceStep();
 }
 
-function createColorMapGenerator() {
-  const colorMap = new Map<string, string>();
-  const colorSet = new Set<string>();
+function drawTraceStep() {
+  if (!trace) return;
+  const stepIndex = parseInt(traceStepInput.value);
+  const step = trace.steps[stepIndex];
+  traceContainerDiv.innerHTML = "";
+  traceContainerDiv.style.minWidth = trace.width + "px";
+  traceContainerDiv.style.minHeight = trace.height + "px";
+  if (!step) {
+    traceInfoSpan.textContent = "Немає прямокутників для пакування";
+    return;
+  }
 
-  return function(key: string) {
-    let color = colorMap.get(key);
-    if (!color) {
-      do {
-        color = getRandomColor();
-      } while (colorSet.has(color));
-      colorSet.add(color);
-      colorMap.set(key, color);
-    }
-    return color;
+  const drawRect = (rect: Rect, className: string, text?: string) => {
+    const rectDiv = createRectDiv(rect, text);
+    rectDiv.classList.add(className);
+    traceContainerDiv.append(rectDiv);
   };
+  for (const { chosen } of trace.steps.slice(0, stepIndex)) {
+    if (chosen) drawRect(chosen, "trace-placed", `#${candidateKey(chosen)}`);
+  }
+  for (const rect of traceFreeAfterInput.checked ? step.freeAfter : step.freeBefore) drawRect(rect, "trace-free");
+  const positions = step.candidates.filter(candidate => candidateKey(candidate) === traceBoxSelect.value);
+  for (const candidate of positions) drawRect(candidate, "trace-candidate", formatScore(candidate.score));
+  if (step.chosen) drawRect(step.chosen, "trace-chosen", `#${candidateKey(step.chosen)}`);
+
+  const free = `вільних прямокутників ${step.freeBefore.length} → ${step.freeAfter.length}`;
+  const result = step.chosen
+    ? `розміщено #${candidateKey(step.chosen)} (${sizeOf(step.chosen)}) з оцінкою ${formatScore(step.chosen.score)}`
+    : "жоден прямокутник не вміщується";
+  traceInfoSpan.textContent =
+    `Крок ${stepIndex + 1} з ${trace.steps.length}: ${result}\n` +
+    `Оцінено позицій: ${step.candidates.length}, прямокутника #${traceBoxSelect.value}: ${positions.length}, ${free}`;
+}
+
+function candidateKey(candidate: TraceCandidate) {
+  return `${candidate.id}.${candidate.instance}`;
+}
+
+function sizeOf(rect: Rect) {
+  return `${rect.right - rect.left}x${rect.bottom - rect.top}`;
+}
+
+function formatScore(score: number) {
+  return String(Math.round(score * 100) / 100);
+}
+
+// The container is drawn from the bottom, so the top coordinate of a rectangle is its distance from the bottom edge
+function createRectDiv(rect: Rect, text?: string) {
+  const rectDiv = document.createElement("div") as HTMLElement;
+  rectDiv.classList.add("rect");
+  rectDiv.style.bottom = rect.top + "px";
+  rectDiv.style.left = rect.left + "px";
+  rectDiv.style.width = rect.right - rect.left + "px";
+  rectDiv.style.height = rect.bottom - rect.top + "px";
+
+  if (text !== undefined) {
+    const rectIdDiv = document.createElement("div") as HTMLElement;
+    rectIdDiv.classList.add("rect-id");
+    rectIdDiv.textContent = text;
+    rectDiv.append(rectIdDiv);
+  }
+  return rectDiv;
+}
+
+function fillRectList() {
+  rectList.innerHTML = "";
+  for (const block of blocksParams) {
+    const rectItem = template.content.cloneNode(true) as HTMLElement;
+    const widthInput = rectItem.querySelector(".width") as HTMLInputElement;
+    const heightInput = rectItem.querySelector(".height") as HTMLInputElement;
+    const quantityInput = rectItem.querySelector(".quantity") as HTMLInputElement;
+    const options = block.options || {};
+    widthInput.value = block.width + "";
+    heightInput.value = block.height + "";
+    quantityInput.value = String(options.quantity === undefined ? 1 : options.quantity);
+    (<HTMLElement>rectItem.querySelector(".label")).textContent = options.label || "";
+
+    const onChange = () =>
+      editBlock(block.id, {
+        width: parseInt(widthInput.value),
+        height: parseInt(heightInput.value),
+        quantity: parseInt(quantityInput.value)
+      });
+    widthInput.onchange = onChange;
+    heightInput.onchange = onChange;
+    quantityInput.onchange = onChange;
+    (<HTMLElement>rectItem.querySelector(".duplicate-button")).onclick = () => duplicateBlock(block.id);
+    (<HTMLElement>rectItem.querySelector(".delete-button")).onclick = () => deleteBlock(block.id);
+    rectList.appendChild(rectItem);
+  }
 }
 
 function drawBlocks(containerSize: Size, fullness: number, blockCoordinates: RectCoord[]) {
@@ -138,26 +479,9 @@ function drawBlocks(containerSize: Size, fullness: number, blockCoordinates: Rec
   const getColor = createColorMapGenerator();
 
   for (const block of blockCoordinates) {
-    const rectDiv = document.createElement("div") as HTMLElement;
-
-    const width = block.right - block.left;
-    const height = block.bottom - block.top;
-
-    rectDiv.classList.add("rect");
-    rectDiv.style.bottom = block.top + "px";
-    rectDiv.style.left = block.left + "px";
-    rectDiv.style.width = width + "px";
-    rectDiv.style.height = height + "px";
-
-    const sizeKey = Math.min(width, height) + "x" + Math.max(width, height);
-    rectDiv.style.backgroundColor = getColor(sizeKey);
-
+    const rectDiv = createRectDiv(block, String(block.initialOrder));
+    rectDiv.style.backgroundColor = getColor(sizeKeyOf(block.right - block.left, block.bottom - block.top));
     containerDiv.append(rectDiv);
-
-    const rectIdDiv = document.createElement("div") as HTMLElement;
-    rectIdDiv.classList.add("rect-id");
-    rectIdDiv.textContent = String(block.initialOrder);
-    rectDiv.append(rectIdDiv);
   }
 }
 
@@ -169,12 +493,12 @@ async function loadBlocksData() {
       throw new Error(`Failed to load blocksData.json (HTTP ${response.status})`);
     }
 
-    const blocksParams = await response.json();
-    addBlocks(blocksParams);
-    update();
+    setBlocks(readBoxList(await response.text(), "json"));
   } catch (error) {
     console.error("Error loading blocksData.json:", error.message);
   }
 }
 
-loadBlocksData();
+const savedProblem = loadState();
+if (savedProblem) applyProblem(savedProblem);
+else loadBlocksData();
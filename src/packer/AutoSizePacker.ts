@@ -0,0 +1,328 @@
+import { Box } from "./Box";
+import { createPacker } from "./createPacker";
+import { assertMandatoryPlaced } from "./errors";
+import { IdSequence, instancesOf } from "./input";
+import { toMargins } from "./margins";
+import StripPacker from "./StripPacker";
+import { BoxOptions, PackAlgorithm, PackDirection, PackerOptions, PackResult, SizedResult, SizingOptions } from "./types";
+
+type SizedBox<T> = { width: number; height: number; id: number; options: BoxOptions<T> };
+type Layout<T> = { width: number; height: number; pack(): Box[]; getResult(): PackResult<T> };
+
+const DEFAULT_WIDTH_STEPS = 24;
+
+/**
+ * AutoSizePacker class for finding the smallest container that holds all boxes, e.g. for sprite atlases.
+ * Candidate container sizes are packed one by one, the smallest size by the chosen objective that places
+ * every box is kept.
+ */
+class AutoSizePacker<T = unknown> {
+  private boxes: SizedBox<T>[] = [];
+  private options: PackerOptions = {};
+  private algorithm: PackAlgorithm = "maxrects";
+  private layout: Layout<T>;
+  private ids = new IdSequence();
+
+  constructor(private sizing: SizingOptions = {}, direction: PackDirection = "none") {
+    this.options.direction = direction;
+  }
+
+  /**
+   * Set the constraints of the container size.
+   * @param sizing - The sizing options.
+   * @remarks
+   * - objective: "area" minimizes the container area (default), "max-side" minimizes its longer side.
+   * - powerOfTwo: Both sides are powers of two.
+   * - square: Both sides are equal.
+   * - aspectRatio: The width divided by the height, the height is rounded up.
+   * - maxWidth, maxHeight: Upper limits of the sides.
+   * - widthSteps: The number of widths tried when neither the shape nor the sizes are fixed.
+   */
+  setSizing(sizing: SizingOptions) {
+    this.sizing = sizing;
+    this.layout = undefined;
+  }
+
+  /**
+   * Set the packing algorithm.
+   * @param algorithm - The packing algorithm.
+   */
+  setAlgorithm(algorithm: PackAlgorithm) {
+    this.algorithm = algorithm;
+    this.layout = undefined;
+  }
+
+  /**
+   * Applies packing options. Options that are not specified keep their current values.
+   *
+   * @param options - The packing options.
+   */
+  setOptions(options: PackerOptions) {
+    this.options = { ...this.options, ...options };
+    this.layout = undefined;
+  }
+
+  /**
+   * Adds a box to the list of boxes.
+   *
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @param id - The identifier for the box (optional, default is the next unused identifier).
+   * @param options - Per-box options, e.g. a rotation policy, a quantity or a payload (optional).
+   * @returns The identifier of the box.
+   */
+  addBox(width: number, height: number, id?: number, options: BoxOptions<T> = {}) {
+    const boxId = this.ids.take(id);
+    for (const instance of instancesOf(options)) this.boxes.push({ width, height, id: boxId, options: instance });
+    this.layout = undefined;
+    return boxId;
+  }
+
+  /**
+   * Clears all boxes and the last layout.
+   */
+  clear() {
+    this.boxes.length = 0;
+    this.ids.reset();
+    this.layout = undefined;
+  }
+
+  /**
+   * Searches for the smallest container and packs the boxes into it.
+   * If no container within the size limits holds every box, the layout of the largest allowed container is kept.
+   *
+   * @returns An array containing the packed boxes.
+   * @throws MandatoryBoxError if a mandatory box is left out and the check is enabled, the layout stays available.
+   */
+  pack() {
+    if (this.sizing.powerOfTwo) this.layout = this.searchPowerOfTwo();
+    else if (this.sizing.square) this.layout = this.searchRatio(1);
+    else if (this.sizing.aspectRatio) this.layout = this.searchRatio(this.sizing.aspectRatio);
+    else this.layout = this.searchWidths();
+
+    if (this.options.mandatoryCheck !== false) {
+      const { unplaced, rejected } = this.layout.getResult();
+      assertMandatoryPlaced([...unplaced, ...rejected]);
+    }
+    return this.layout.pack();
+  }
+
+  /**
+   * Builds a structured report of the last packing, packing the boxes first if needed.
+   * The fullness ratio is the share of the container area covered by the boxes.
+   *
+   * @returns The placed, unplaced and rejected boxes, the fullness ratio and the container size.
+   */
+  getResult(): SizedResult<T> {
+    if (!this.layout) this.pack();
+
+    const { width, height } = this.layout;
+    const result = this.layout.getResult();
+    const boxSquare = result.placed.reduce((sum, box) => sum + box.width * box.height, 0);
+    return { ...result, fullness: width * height > 0 ? boxSquare / (width * height) : 0, width, height };
+  }
+
+  /**
+   * Tries the pairs of powers of two within the limits in the order of the objective.
+   *
+   * @returns The first layout that places every box, or the largest allowed one.
+   */
+  private searchPowerOfTwo(): Layout<T> {
+    const limit = this.upperBound();
+    const maxWidth = Math.min(this.sizing.maxWidth || Infinity, limit);
+    const maxHeight = Math.min(this.sizing.maxHeight || Infinity, limit);
+    const candidates: [number, number][] = [];
+
+    for (let width = 1; width <= nextPowerOfTwo(maxWidth); width *= 2) {
+      for (let height = 1; height <= nextPowerOfTwo(maxHeight); height *= 2) {
+        if (width > (this.sizing.maxWidth || Infinity) || height > (this.sizing.maxHeight || Infinity)) continue;
+        if (this.sizing.square && width !== height) continue;
+        if (this.sizing.aspectRatio && width / height !== this.sizing.aspectRatio) continue;
+        candidates.push([width, height]);
+      }
+    }
+    candidates.sort((a, b) => this.compareSizes(a[0], a[1], b[0], b[1]));
+
+    const area = this.boxArea();
+    let last: Layout<T>;
+    for (const [width, height] of candidates) {
+      if (width * height < area) continue;
+      last = this.attempt(width, height);
+      if (this.placesAll(last.getResult())) return last;
+    }
+    return last || this.attempt(0, 0);
+  }
+
+  /**
+   * Searches for the smallest width of a container with a fixed aspect ratio, the height is rounded up.
+   * The width is doubled from the area bound until the boxes fit, then the range is halved.
+   *
+   * @param ratio - The width divided by the height.
+   * @returns The smallest layout that places every box, or the largest allowed one.
+   */
+  private searchRatio(ratio: number): Layout<T> {
+    const maxWidth = Math.min(this.sizing.maxWidth || Infinity, (this.sizing.maxHeight || Infinity) * ratio);
+    const heightOf = (width: number) => Math.ceil(width / ratio);
+
+    let low = Math.max(0, Math.floor(Math.sqrt(this.boxArea() * ratio)) - 1);
+    let high = low + 1;
+    let best: Layout<T>;
+
+    // Grow the width until the boxes fit or the limit is reached
+    while (!best) {
+      const width = Math.min(high, Math.floor(maxWidth));
+      const layout = this.attempt(width, heightOf(width));
+      if (this.placesAll(layout.getResult())) {
+        best = layout;
+      } else if (width === Math.floor(maxWidth)) {
+        return layout;
+      } else {
+        low = width;
+        high = width * 2;
+      }
+    }
+
+    high = best.width;
+    while (high - low > 1) {
+      const width = Math.floor((low + high) / 2);
+      const layout = this.attempt(width, heightOf(width));
+      if (this.placesAll(layout.getResult())) {
+        best = layout;
+        high = width;
+      } else {
+        low = width;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Tries evenly spaced widths between the widest box and the width of all boxes in a row,
+   * packing the boxes into a strip of every width to find the smallest height.
+   *
+   * @returns The smallest layout by the objective that places every box, or the largest allowed one.
+   */
+  private searchWidths(): Layout<T> {
+    const { left, right } = toMargins(this.options.margins || 0);
+    const widest = this.boxes.filter(isPositive).reduce((max, box) => Math.max(max, this.minimalWidth(box)), 0);
+    const minWidth = widest + left + right;
+    const maxWidth = Math.max(minWidth, Math.min(this.sizing.maxWidth || Infinity, this.upperBound()));
+    const maxHeight = this.sizing.maxHeight || Infinity;
+    const steps = Math.max(2, this.sizing.widthSteps || DEFAULT_WIDTH_STEPS);
+
+    const widths = new Set<number>();
+    for (let i = 0; i < steps; i++) widths.add(Math.round(minWidth + ((maxWidth - minWidth) * i) / (steps - 1)));
+
+    let best: Layout<T>;
+    for (const width of widths) {
+      const strip = new StripPacker<T>(width);
+      strip.setAlgorithm(this.algorithm);
+      strip.setOptions({ ...this.options, mandatoryCheck: false });
+      for (const box of this.boxes) strip.addBox(box.width, box.height, box.id, box.options);
+
+      const result = strip.getResult();
+      const height = result.usedLength;
+      if (height > maxHeight || !this.placesAll(result)) continue;
+      if (best && this.compareSizes(width, height, best.width, best.height) >= 0) continue;
+
+      best = { width, height, pack: () => strip.pack(), getResult: () => strip.getResult() };
+    }
+    return best || this.attempt(maxWidth, Math.min(maxHeight, this.upperBound()));
+  }
+
+  /**
+   * Packs the boxes into a container of the given size.
+   *
+   * @param width - The width of the container.
+   * @param height - The height of the container.
+   * @returns The layout.
+   */
+  private attempt(width: number, height: number): Layout<T> {
+    const packer = createPacker<T>(this.algorithm, width, height);
+    packer.setOptions({ ...this.options, mandatoryCheck: false });
+    for (const box of this.boxes) packer.addBox(box.width, box.height, box.id, box.options);
+    packer.pack();
+    return { width, height, pack: () => packer.pack(), getResult: () => packer.getResult() };
+  }
+
+  /**
+   * Checks whether a layout places every box with positive dimensions.
+   *
+   * @param result - The result of the layout.
+   * @returns True if no box is left out for lack of space or size.
+   */
+  private placesAll(result: PackResult<T>) {
+    return !result.unplaced.length && result.rejected.every(box => box.reason === "non-positive");
+  }
+
+  /**
+   * Compares two container sizes by the objective, ties are broken by the other measure.
+   *
+   * @returns A negative number if the first size is smaller.
+   */
+  private compareSizes(widthA: number, heightA: number, widthB: number, heightB: number) {
+    const area = widthA * heightA - widthB * heightB;
+    const side = Math.max(widthA, heightA) - Math.max(widthB, heightB);
+    return this.sizing.objective === "max-side" ? side || area : area || side;
+  }
+
+  /**
+   * Calculates the smallest width a box can take in the allowed orientations.
+   *
+   * @param box - The box to be checked.
+   * @returns The width of the box.
+   */
+  private minimalWidth(box: SizedBox<T>) {
+    const rotation = box.options.rotation || this.options.rotation || "allowed";
+    if (rotation === "allowed") return Math.min(box.width, box.height);
+    return rotation === "forced" ? box.height : box.width;
+  }
+
+  /**
+   * Calculates the total area of the boxes including the spacing.
+   *
+   * @returns The area no container holding all boxes can be smaller than.
+   */
+  private boxArea() {
+    const spacing = this.options.spacing || 0;
+    return this.boxes
+      .filter(isPositive)
+      .reduce((sum, box) => sum + (box.width + spacing) * (box.height + spacing), 0);
+  }
+
+  /**
+   * Calculates a side length that holds all boxes in a row, including the spacing and the margins.
+   *
+   * @returns The upper bound of both container sides.
+   */
+  private upperBound() {
+    const { top, right, bottom, left } = toMargins(this.options.margins || 0);
+    const spacing = this.options.spacing || 0;
+    const length = this.boxes.filter(isPositive).reduce((sum, box) => sum + Math.max(box.width, box.height) + spacing, 0);
+    return length + Math.max(top + bottom, left + right);
+  }
+}
+
+/**
+ * Checks whether both dimensions of a box are positive.
+ *
+ * @param box - The box to be checked.
+ * @returns True if the box can be packed at all.
+ */
+function isPositive(box: SizedBox<unknown>) {
+  return box.width > 0 && box.height > 0;
+}
+
+/**
+ * Rounds a number up to the nearest power of two.
+ *
+ * @param value - The number to be rounded.
+ * @returns The smallest power of two not less than the number.
+ */
+function nextPowerOfTwo(value: number) {
+  let result = 1;
+  while (result < value) result *= 2;
+  return result;
+}
+
+export default AutoSizePacker;
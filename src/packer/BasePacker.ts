@@ -0,0 +1,1092 @@
+import { Box } from "./Box";
+import { AbortError, assertMandatoryPlaced, throwIfAborted } from "./errors";
+import { IdSequence, instancesOf } from "./input";
+import { totalValue, toPlacedBox, toUnplacedBox } from "./result";
+import { resolveComparator, resolveScorer, scoreLimit } from "./heuristics";
+import { toMargins } from "./margins";
+import { measureLayout } from "./metrics";
+import { fitsContainer, isOrientationAllowed } from "./rotation";
+import { complementRects, decomposePolygon } from "./shape";
+import SpatialIndex from "./SpatialIndex";
+import {
+  AsyncPackOptions,
+  BoxOptions,
+  LayoutMetrics,
+  Margins,
+  MetricsOptions,
+  PackDirection,
+  PackerOptions,
+  PackProgress,
+  PackResult,
+  PackTrace,
+  PlacementContext,
+  PlacementHeuristic,
+  PlacementScorer,
+  Point,
+  Rect,
+  RectPacker,
+  RejectReason,
+  RotationPolicy,
+  SelectionMode,
+  SortComparator,
+  SortOrder,
+  TraceCandidate,
+  TraceStep
+} from "./types";
+
+/**
+ * Base class of the packing algorithms. It keeps the list of boxes and the packing options,
+ * filters and sorts the boxes, and greedily places the box with the best scored position on every step.
+ * Subclasses provide the free space bookkeeping of their algorithm.
+ */
+abstract class BasePacker<T = unknown> implements RectPacker<T> {
+  protected boxes: Box[] = [];
+  protected queue: Box[] = [];
+  protected packedBoxes: Box[] = [];
+  protected badBoxes: Box[] = [];
+  protected notPlacedBoxes: Box[] = [];
+  protected isPrepared = false;
+  protected isPacked = false;
+  protected isPacking = false;
+  protected _fullness = -1;
+  protected rotation: RotationPolicy = "allowed";
+  protected heuristic: PlacementHeuristic | PlacementScorer = "contact-point";
+  protected sortOrder: SortOrder | SortComparator = "width";
+  protected selection: SelectionMode = "best-fit";
+  protected mandatoryCheck = true;
+  protected context: PlacementContext;
+  protected spacing = 0;
+  protected margins: Margins = { top: 0, right: 0, bottom: 0, left: 0 };
+  protected innerWidth = 0;
+  protected innerHeight = 0;
+  protected placedBoxes: Box[] = [];
+  protected obstacles: Box[] = [];
+  protected fixedBoxes: Box[] = [];
+  protected reservedBoxes: Box[] = [];
+  protected shape: Rect[] | undefined;
+  protected nearIndex: SpatialIndex;
+  protected hasOverlappingReserved = false;
+  protected ids = new IdSequence();
+  protected tracing = false;
+  private trace: PackTrace | undefined;
+  private traceStep: TraceStep | undefined;
+  private runs = 0;
+
+  constructor(protected containerWidth: number, protected containerHeight: number, protected direction: PackDirection = "none") {}
+
+  /**
+   * Set the packing direction.
+   * @param direction - The packing direction.
+   * @remarks
+   * This method sets the packing direction. The direction parameter
+   * specifies how the boxes should be arranged during the packing process.
+   * - "none": No specific direction, let the algorithm choose the optimal direction.
+   * - "left": Pack boxes aligning them from left to right.
+   * - "top": Pack boxes aligning them from top to bottom.
+   *
+   * The direction is a bias of the "contact-point" heuristic, other heuristics ignore it.
+   */
+  setDirection(direction: PackDirection) {
+    this.direction = direction;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Set the default rotation policy for boxes added without their own policy.
+   * @param rotation - The rotation policy.
+   * @remarks
+   * - "allowed": The box may be placed as given or turned by 90 degrees, whichever fits better.
+   * - "forbidden": The box keeps the orientation it was added with, e.g. to follow the grain direction.
+   * - "forced": The box is always turned by 90 degrees relative to the orientation it was added with.
+   */
+  setRotation(rotation: RotationPolicy) {
+    this.rotation = rotation;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Set the rule that scores the candidate positions of a box.
+   * @param heuristic - The name of a built-in heuristic or a custom scoring function.
+   * @remarks
+   * - "contact-point": Maximize the length of edges touching the walls and the packed boxes (default).
+   * - "best-short-side-fit": Minimize the leftover on the shorter side of the free box.
+   * - "best-long-side-fit": Minimize the leftover on the longer side of the free box.
+   * - "best-area-fit": Minimize the area of the free box left around the box.
+   * - "bottom-left": Minimize the far edge of the box, then its left edge.
+   *
+   * A custom scoring function receives the candidate coordinates, the free box and the placement context,
+   * and returns a score where higher is better. The context lists the packed boxes and the reserved areas,
+   * and its nearBoxes function finds the ones around a position through a spatial index.
+   */
+  setHeuristic(heuristic: PlacementHeuristic | PlacementScorer) {
+    this.heuristic = heuristic;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Set the order in which the boxes are considered during packing.
+   * @param sortOrder - The name of a built-in sort order or a custom comparator.
+   * @remarks
+   * All built-in orders put larger boxes first:
+   * - "width": By the shorter side, then by the longer side (default).
+   * - "area": By area.
+   * - "perimeter": By perimeter.
+   * - "max-side": By the longer side, then by the shorter side.
+   * - "ratio": By the ratio of the longer side to the shorter side.
+   *
+   * The order "none" keeps the order in which the boxes were added.
+   */
+  setSortOrder(sortOrder: SortOrder | SortComparator) {
+    this.sortOrder = sortOrder;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Set how the next box to be placed is chosen.
+   * @param selection - The selection mode.
+   * @remarks
+   * - "best-fit": On every step, the box with the best scored position among all remaining boxes is placed (default).
+   *   The sort order only breaks ties.
+   * - "sequential": The boxes are placed one by one in the sort order, each at its best position.
+   *   The layout follows the order exactly, e.g. an order chosen by a search, so the values of the boxes are ignored.
+   */
+  setSelection(selection: SelectionMode) {
+    this.selection = selection;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Enables or disables the error thrown by packing when a mandatory box is left out.
+   * @param enabled - Whether a missing mandatory box is an error (default is true).
+   * @remarks
+   * Packers that try several layouts, e.g. with different container sizes, disable the check
+   * for their attempts and check the final layout only.
+   */
+  setMandatoryCheck(enabled: boolean) {
+    this.mandatoryCheck = enabled;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Enables or disables the recording of a trace of the packing, see `getTrace`.
+   * @param enabled - Whether the packing is traced (default is false).
+   * @remarks
+   * A traced packing scores every position of every remaining box on every step, skipping none of them,
+   * and copies the whole free space twice per step. The layout stays the same, but the packing is much slower,
+   * so the trace is meant for inspecting small layouts, e.g. when tuning a heuristic or a direction.
+   * When a packing places the boxes again to keep the layout worth more, see `pack`, the trace holds the last placing.
+   */
+  setTracing(enabled: boolean) {
+    this.tracing = enabled;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Applies several packing options at once. Options that are not specified keep their current values.
+   *
+   * @param options - The packing options.
+   */
+  setOptions(options: PackerOptions) {
+    if (options.direction !== undefined) this.setDirection(options.direction);
+    if (options.rotation !== undefined) this.setRotation(options.rotation);
+    if (options.heuristic !== undefined) this.setHeuristic(options.heuristic);
+    if (options.sortOrder !== undefined) this.setSortOrder(options.sortOrder);
+    if (options.selection !== undefined) this.setSelection(options.selection);
+    if (options.mandatoryCheck !== undefined) this.setMandatoryCheck(options.mandatoryCheck);
+    if (options.spacing !== undefined) this.setSpacing(options.spacing);
+    if (options.margins !== undefined) this.setMargins(options.margins);
+  }
+
+  /**
+   * Set the gap kept between neighbouring boxes, e.g. the blade kerf or the padding between sprites.
+   * @param spacing - The gap between boxes.
+   * @remarks
+   * The gap is not kept between a box and the container walls, use margins for that.
+   * The gap counts as occupied space in the fullness ratio.
+   */
+  setSpacing(spacing: number) {
+    this.spacing = spacing;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Set the margins along the container walls that are kept free, e.g. the trim of a sheet.
+   * @param margins - The same margin for all walls, or margins of the individual walls.
+   * @remarks
+   * The margins are not part of the container area in the fullness ratio.
+   */
+  setMargins(margins: number | Partial<Margins>) {
+    this.margins = toMargins(margins, this.margins);
+    this.isPrepared = false;
+  }
+
+  /**
+   * Resizes the container dimensions. The container becomes a rectangle again.
+   *
+   * @param width - The new width of the container.
+   * @param height - The new height of the container.
+   */
+  resizeContainer(width: number, height: number) {
+    this.containerWidth = width;
+    this.containerHeight = height;
+    this.shape = undefined;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Set a non-rectangular container as a union of rectangles, e.g. an L-shaped or stepped offcut.
+   * @param rects - The rectangles of the container in container coordinates, they may overlap.
+   * @remarks
+   * The container size becomes the bounding box of the rectangles, measured from the origin.
+   * The areas of the bounding box outside of the union act as walls: the boxes touch them without the spacing,
+   * and they are not part of the container area in the fullness ratio.
+   * The margins are kept along the walls of the bounding box only.
+   */
+  setShape(rects: Rect[]) {
+    this.shape = rects.map(({ left, top, right, bottom }) => ({ left, top, right, bottom }));
+    this.containerWidth = rects.reduce((max, rect) => Math.max(max, rect.right), 0);
+    this.containerHeight = rects.reduce((max, rect) => Math.max(max, rect.bottom), 0);
+    this.isPrepared = false;
+  }
+
+  /**
+   * Set a non-rectangular container as a rectilinear polygon, which is split into rectangles.
+   *
+   * @param points - The vertices of the polygon in order, every edge must be horizontal or vertical.
+   * @throws Error if an edge of the polygon is neither horizontal nor vertical.
+   */
+  setPolygon(points: Point[]) {
+    this.setShape(decomposePolygon(points));
+  }
+
+  /**
+   * Reserves an area of the container that no box may occupy, e.g. a defect of a sheet or a clamp zone.
+   * The boxes keep the spacing from the area as from each other.
+   *
+   * @param left - The left coordinate of the area in the container.
+   * @param top - The top coordinate of the area in the container.
+   * @param width - The width of the area.
+   * @param height - The height of the area.
+   */
+  addObstacle(left: number, top: number, width: number, height: number) {
+    this.obstacles.push(Box.createFromCoord(left, top, left + width, top + height));
+    this.isPrepared = false;
+  }
+
+  /**
+   * Pins a box at the given coordinates of the container. The box is reported among the placed boxes,
+   * the other boxes are packed around it.
+   *
+   * @param left - The left coordinate of the box in the container.
+   * @param top - The top coordinate of the box in the container.
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @param id - The identifier for the box (optional, default is the next unused identifier).
+   * @param options - The label, the payload and the value of the box (optional).
+   * @returns The identifier of the box.
+   */
+  addFixedBox(left: number, top: number, width: number, height: number, id?: number, options: BoxOptions<T> = {}) {
+    const box = Box.createFromCoord(left, top, left + width, top + height, this.ids.take(id));
+    box.instance = options.instance || 0;
+    box.label = options.label;
+    box.payload = options.payload;
+    box.value = options.value;
+    this.fixedBoxes.push(box);
+    this.isPrepared = false;
+    return box.id;
+  }
+
+  /**
+   * Removes all obstacles and fixed boxes.
+   */
+  clearReserved() {
+    this.obstacles.length = 0;
+    this.fixedBoxes.length = 0;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Clears all data, including the obstacles and the fixed boxes, resetting the state of the packing algorithm.
+   */
+  clear() {
+    this.boxes.length = 0;
+    this.ids.reset();
+    this.clearReserved();
+    this.reset();
+  }
+
+  /**
+   * Resets the state of the packing algorithm, clearing various lists and resetting variables.
+   * This method is called internally during the preparation phase.
+   */
+  protected reset() {
+    this.packedBoxes.length = 0;
+    this.placedBoxes.length = 0;
+    this.badBoxes.length = 0;
+    this.notPlacedBoxes.length = 0;
+    this._fullness = -1;
+    this.isPrepared = false;
+    this.isPacked = false;
+    this.isPacking = false;
+  }
+
+  /**
+   * Adds a box to the list of boxes, automatically rotating it if the width is greater than the height.
+   * The rotation is remembered, so the placed boxes report their orientation relative to the given size.
+   *
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @param id - The identifier for the box (optional, default is the next unused identifier).
+   * @param options - Per-box options, e.g. a rotation policy overriding the default one (optional).
+   * @returns The identifier of the box.
+   * @remarks
+   * - quantity: The number of identical boxes to add, they share the identifier and differ by the instance index.
+   * - instance: The instance index of the first box (default is 0).
+   * - label, payload: Any data of the caller, reported with every placement of the box.
+   * - value: The worth of the box. When the best-fit selection leaves out boxes with values, the boxes are also placed
+   *   in the order of their value per unit of area, and the layout worth more is kept. Boxes without a value count as worthless.
+   *   Both orders are greedy heuristics, the `Optimizer` with the "value" objective searches for a layout worth more.
+   * - mandatory: The box is placed before all other boxes, and packing fails if it cannot be placed.
+   */
+  addBox(width: number, height: number, id?: number, options: BoxOptions<T> = {}) {
+    const boxId = this.ids.take(id);
+    for (const instance of instancesOf(options)) this.boxes.push(this.createBox(width, height, boxId, instance));
+    this.isPrepared = false;
+    return boxId;
+  }
+
+  /**
+   * Removes a box from the list of boxes, e.g. one deleted by the user, the next packing leaves it out.
+   * Unlike `Packer.removeBox`, the current layout is not kept.
+   *
+   * @param id - The identifier of the box.
+   * @param instance - The instance index of the box (optional, default is every instance of the box).
+   * @returns The number of boxes removed.
+   */
+  removeBoxes(id: number, instance?: number) {
+    const count = this.boxes.length;
+    for (let i = count - 1; i >= 0; i--) {
+      const box = this.boxes[i];
+      if (box.id === id && (instance === undefined || box.instance === instance)) this.boxes.splice(i, 1);
+    }
+    if (this.boxes.length !== count) this.isPrepared = false;
+    return count - this.boxes.length;
+  }
+
+  /**
+   * Inserts a box into the current layout without repacking, the boxes placed before keep their positions.
+   * The layout is packed first if needed. The box is added to the list of boxes, so a later full packing includes it.
+   *
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @param id - The identifier for the box (optional, default is the next unused identifier).
+   * @param options - Per-box options, e.g. a rotation policy overriding the default one (optional), the quantity is ignored.
+   * @returns The placed box in container coordinates, or undefined if the box is rejected or finds no free space.
+   */
+  insertBox(width: number, height: number, id?: number, options: BoxOptions<T> = {}): Box | undefined {
+    this.packIfNeeded();
+
+    const box = this.createBox(width, height, this.ids.take(id), options);
+    this.boxes.push(box);
+    if (this.rejectReason(box)) {
+      this.badBoxes.push(box);
+      return undefined;
+    }
+
+    const testBox = new Box();
+    this.findBoxPosition(box, testBox);
+    if (testBox.mark === -Infinity) {
+      this.notPlacedBoxes.push(box);
+      return undefined;
+    }
+
+    const packedBox = testBox.clone();
+    packedBox.setIdentity(box);
+    this.placeBox(packedBox);
+    const placedBox = this.toContainerBox(packedBox);
+    this.placedBoxes.push(placedBox);
+    this._fullness = -1;
+    return placedBox;
+  }
+
+  /**
+   * Creates a single box lying on its longer side, remembering whether it was turned.
+   *
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @param id - The identifier for the box.
+   * @param options - Per-box options.
+   * @returns The new box.
+   */
+  protected createBox(width: number, height: number, id: number, options: BoxOptions<T>) {
+    const box = Box.createFromSize(Math.min(width, height), Math.max(width, height), id);
+    box.rotated = width > height;
+    box.rotation = options.rotation;
+    box.instance = options.instance || 0;
+    box.label = options.label;
+    box.payload = options.payload;
+    box.value = options.value;
+    box.mandatory = options.mandatory;
+    return box;
+  }
+
+  /**
+   * Prepares the algorithm for packing by filtering out bad boxes, sorting them, and setting up the free space of the container.
+   * This method should be called before packing the boxes.
+   */
+  prepare() {
+    this.reset();
+    this.runs++;
+    // A packing that was interrupted leaves its placed boxes marked
+    for (const box of this.boxes) box.needRemove = false;
+    // The packing area is shifted by the margins and enlarged by the spacing,
+    // which every box carries along its right and bottom edges
+    this.innerWidth = this.containerWidth - this.margins.left - this.margins.right + this.spacing;
+    this.innerHeight = this.containerHeight - this.margins.top - this.margins.bottom + this.spacing;
+    // The list of added boxes is kept intact, so a box rejected by one container size is back for the next one
+    this.queue = this.filterBadBoxes(this.boxes);
+    this.queue.sort(resolveComparator(this.sortOrder));
+    const outside = this.shape ? complementRects(this.shape, this.containerWidth, this.containerHeight) : [];
+    this.reservedBoxes = [
+      ...outside.map(rect => this.toWallBox(rect)),
+      ...[...this.obstacles, ...this.fixedBoxes].map(box => this.toPackingBox(box))
+    ].filter(box => box.width > 0 && box.height > 0);
+    this.nearIndex = new SpatialIndex(this.innerWidth, this.innerHeight, this.cellSize());
+    this.hasOverlappingReserved = false;
+    for (const box of this.reservedBoxes) {
+      const near = this.nearIndex.search(box.left, box.top, box.right, box.bottom);
+      if (near.some(other => Box.isSeparated(box, other))) this.hasOverlappingReserved = true;
+      this.nearIndex.insert(box);
+    }
+    this.context = {
+      containerWidth: this.innerWidth,
+      containerHeight: this.innerHeight,
+      packedBoxes: this.packedBoxes,
+      reservedBoxes: this.reservedBoxes,
+      direction: this.direction,
+      nearBoxes: (left, top, right, bottom) => this.nearIndex.search(left, top, right, bottom)
+    };
+    this.initContainer();
+    for (const box of this.reservedBoxes) this.reserveBox(box);
+    this.trace = this.tracing ? { width: this.containerWidth, height: this.containerHeight, steps: [] } : undefined;
+    this.isPrepared = true;
+  }
+
+  /**
+   * Calculates the average side of the boxes to be packed including the spacing, used as the cell size
+   * of the spatial indexes, so a cell holds a few boxes at most.
+   *
+   * @returns The cell size.
+   */
+  protected cellSize() {
+    const sides = this.queue.reduce((sum, box) => sum + box.width + box.height, 0);
+    return this.queue.length ? sides / (2 * this.queue.length) + this.spacing : 1;
+  }
+
+  /**
+   * Filters out oversized and undersized boxes, adding them to the list of bad boxes.
+   *
+   * @param boxes - An array of boxes to be filtered.
+   * @returns An array of filtered boxes that meet the size criteria.
+   */
+  protected filterBadBoxes(boxes: Box[]) {
+    return boxes.filter(box => {
+      if (this.rejectReason(box)) {
+        this.badBoxes.push(box);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Determines why a box cannot be packed into the container regardless of the other boxes.
+   *
+   * @param box - The box to be checked.
+   * @returns The reason code, or undefined if the box may fit.
+   */
+  protected rejectReason(box: Box): RejectReason | undefined {
+    if (box.width <= 0 || box.height <= 0) return "non-positive";
+    const width = this.innerWidth - this.spacing;
+    const height = this.innerHeight - this.spacing;
+    if (!fitsContainer(box, this.rotationOf(box), width, height)) return "oversized";
+    return undefined;
+  }
+
+  /**
+   * Resolves the rotation policy of a box, falling back to the default policy.
+   *
+   * @param box - The box to be checked.
+   * @returns The effective rotation policy.
+   */
+  protected rotationOf(box: Box): RotationPolicy {
+    return box.rotation || this.rotation;
+  }
+
+  /**
+   * Packs the available boxes into containers using a specific algorithm.
+   * The method first prepares the data if not already prepared, the layout of a finished packing is returned as is.
+   * Mandatory boxes are placed first, then the other boxes according to the selection mode. If the best-fit selection
+   * leaves out boxes with values, the boxes are placed again in the order of their value per unit of area,
+   * and the layout with the higher total value is kept.
+   * Finally, it collects the boxes that couldn't be placed into notPlacedBoxes.
+   *
+   * @returns An array containing the packed boxes in container coordinates.
+   * @throws MandatoryBoxError if a mandatory box is left out and the check is enabled, the layout stays available.
+   */
+  pack(): Box[] {
+    // Prepare data if not already prepared, an interrupted asynchronous packing starts over
+    if (!this.isPrepared || this.isPacking) this.prepare();
+    if (this.isPacked) return this.placedBoxes;
+
+    const steps = this.placeQueue();
+    while (!steps.next().done) continue;
+    return this.completePacking();
+  }
+
+  /**
+   * Packs the boxes if the packer was never packed or was changed since the last packing, e.g. by `addBox` or `setOptions`,
+   * so the methods reporting the layout never report an outdated one.
+   */
+  protected packIfNeeded() {
+    if (!this.isPrepared || !this.isPacked) this.pack();
+  }
+
+  /**
+   * Packs the boxes like `pack`, but gives control back to the event loop between slices of the work,
+   * so a page or a worker stays responsive and the packing can be cancelled.
+   *
+   * @param options - The abort signal, the progress callback and the length of a slice in milliseconds (optional).
+   * @returns A promise of the packed boxes in container coordinates.
+   * @throws AbortError if the signal is aborted, or if the packer is changed or packed again before the packing completes.
+   * The next packing starts over then.
+   * @throws MandatoryBoxError if a mandatory box is left out and the check is enabled, the layout stays available.
+   */
+  async packAsync(options: AsyncPackOptions = {}): Promise<Box[]> {
+    const { signal, onProgress, sliceTime = 20 } = options;
+    throwIfAborted(signal);
+    if (!this.isPrepared || !this.isPacked) this.prepare();
+    if (this.isPacked) return this.placedBoxes;
+
+    const run = this.runs;
+    const steps = this.placeQueue();
+    let sliceStart = Date.now();
+    while (!steps.next().done) {
+      if (Date.now() - sliceStart < sliceTime) continue;
+      if (onProgress) onProgress(this.progress());
+      await nextSlice();
+      throwIfAborted(signal);
+      if (run !== this.runs || !this.isPrepared) throw new AbortError("The packer was changed before the packing completed");
+      sliceStart = Date.now();
+    }
+
+    if (onProgress) onProgress(this.progress());
+    return this.completePacking();
+  }
+
+  /**
+   * Places the queued boxes, the mandatory boxes first, then the optional boxes in the selection mode of the packer.
+   * If the best-fit selection leaves out optional boxes with values, the boxes are placed again with the optional boxes
+   * in the order of their value density. That layout is kept if it is worth more, otherwise the best-fit layout is restored
+   * from its packed boxes without searching their positions again. Both orders are greedy, neither is the most valuable layout.
+   *
+   * @returns An iterator pausing after every placed box.
+   */
+  private *placeQueue(): IterableIterator<void> {
+    this.isPacking = true;
+    yield* this.placeAll(false);
+    const isValueLeftOut = this.queue.some(box => !box.needRemove && !box.mandatory && box.value > 0);
+    if (this.selection !== "best-fit" || !isValueLeftOut) return;
+
+    const bestFit = { packedBoxes: [...this.packedBoxes], placed: this.queue.filter(box => box.needRemove), trace: this.trace };
+    this.restartPacking();
+    yield* this.placeAll(true);
+    if (totalValue(this.packedBoxes) > totalValue(bestFit.packedBoxes)) return;
+
+    // The free space follows from the packed boxes, placing them in the same order rebuilds it
+    this.restartPacking();
+    for (const box of bestFit.packedBoxes) this.placeBox(box);
+    for (const box of bestFit.placed) box.needRemove = true;
+    this.trace = bestFit.trace;
+  }
+
+  /**
+   * Places the queued boxes, the mandatory boxes first.
+   *
+   * @param byValue - Whether the optional boxes are placed one by one in the order of their value density
+   * instead of the selection mode.
+   * @returns An iterator pausing after every placed box.
+   */
+  private *placeAll(byValue: boolean): IterableIterator<void> {
+    const optional = this.queue.filter(box => !box.mandatory);
+    yield* this.placeBoxes(
+      this.queue.filter(box => box.mandatory),
+      this.selection
+    );
+    if (byValue) yield* this.placeBoxes(optional.sort(byValueDensity), "sequential");
+    else yield* this.placeBoxes(optional, this.selection);
+  }
+
+  /**
+   * Clears the layout of a packing in progress to place the boxes again.
+   * The packing keeps running, so an asynchronous packing is not taken for a changed packer.
+   */
+  private restartPacking() {
+    const runs = this.runs;
+    this.prepare();
+    this.runs = runs;
+    this.isPacking = true;
+  }
+
+  /**
+   * Finishes a packing after all boxes are placed.
+   * It collects the boxes that couldn't be placed into notPlacedBoxes and converts the packed boxes to container coordinates.
+   *
+   * @returns An array containing the packed boxes in container coordinates.
+   * @throws MandatoryBoxError if a mandatory box is left out and the check is enabled.
+   */
+  private completePacking(): Box[] {
+    // Collect the boxes that couldn't be placed into notPlacedBoxes
+    this.notPlacedBoxes.length = 0;
+    for (const box of this.queue) {
+      if (!box.needRemove) {
+        this.notPlacedBoxes.push(box);
+      }
+      box.needRemove = false;
+    }
+
+    this.placedBoxes = [...this.fixedBoxes.map(box => box.clone()), ...this.packedBoxes.map(box => this.toContainerBox(box))];
+    this.isPacked = true;
+    this.isPacking = false;
+
+    if (this.mandatoryCheck) {
+      const missing = [...this.notPlacedBoxes, ...this.badBoxes].filter(box => box.mandatory);
+      assertMandatoryPlaced(missing.map(box => toUnplacedBox(box, this.rejectReason(box) || "no-space")));
+    }
+    return this.placedBoxes;
+  }
+
+  /**
+   * Reports the state of a packing in progress.
+   *
+   * @returns The number of placed boxes, the number of boxes to be placed and the fullness of the layout so far.
+   */
+  private progress(): PackProgress {
+    return { placed: this.packedBoxes.length, total: this.queue.length, fullness: this.calculateFullness() };
+  }
+
+  /**
+   * Places the given boxes one after another, each at its best scored position, marking the placed boxes as removed.
+   *
+   * @param boxes - The boxes to be placed.
+   * @param selection - How the next box to be placed is chosen.
+   * @returns An iterator pausing after every placed box.
+   */
+  private *placeBoxes(boxes: Box[], selection: SelectionMode): IterableIterator<void> {
+    const testBox = new Box();
+
+    // Place the boxes one by one in the given order
+    if (selection === "sequential") {
+      for (const box of boxes) {
+        this.beginTraceStep();
+        this.findBoxPosition(box, testBox);
+        if (testBox.mark === -Infinity) {
+          this.endTraceStep();
+          continue;
+        }
+        const packedBox = testBox.clone();
+        packedBox.setIdentity(box);
+        this.placeBox(packedBox);
+        this.endTraceStep(packedBox, testBox.mark);
+        box.needRemove = true;
+        yield;
+      }
+      return;
+    }
+
+    // Iterate through the remaining unpacked boxes
+    for (let remaining = boxes.length; remaining > 0; remaining--) {
+      let bestScore = -Infinity;
+      let bestBoxIndex = -1;
+      let bestBox: Box;
+      this.beginTraceStep();
+
+      // Find the best position for each box, skipping the boxes that cannot score higher than the best one so far,
+      // a traced packing records the positions of all of them
+      for (let i = 0, total = boxes.length; i < total; i++) {
+        if (boxes[i].needRemove || (!this.tracing && this.scoreLimit(boxes[i]) <= bestScore)) continue;
+        this.findBoxPosition(boxes[i], testBox);
+        if (testBox.mark > bestScore) {
+          bestScore = testBox.mark;
+          bestBox = testBox.clone();
+          bestBox.setIdentity(boxes[i]);
+          bestBoxIndex = i;
+        }
+      }
+
+      // Check if a valid position was found
+      if (bestBoxIndex === -1 || !bestBox) {
+        this.endTraceStep();
+        break;
+      }
+
+      // Add the bestBox to the list of packed boxes and mark the original box as removed
+      this.placeBox(bestBox);
+      this.endTraceStep(bestBox, bestScore);
+      boxes[bestBoxIndex].needRemove = true;
+      yield;
+    }
+  }
+
+  /**
+   * Starts recording a step of a traced packing with the free space before the step.
+   */
+  private beginTraceStep() {
+    if (!this.trace) return;
+    this.traceStep = { candidates: [], freeBefore: this.traceFreeSpace(), freeAfter: [] };
+  }
+
+  /**
+   * Records a scored position of a box in the current step of a traced packing.
+   * The algorithms call it for every position they score, nothing is recorded outside of a traced packing.
+   *
+   * @param box - The box to be positioned.
+   * @param left - The left coordinate of the position in the packing area.
+   * @param top - The top coordinate of the position in the packing area.
+   * @param right - The right coordinate of the position in the packing area, including the spacing.
+   * @param bottom - The bottom coordinate of the position in the packing area, including the spacing.
+   * @param rotated - Whether the box is turned relative to the size it was added with at the position.
+   * @param score - The score of the position.
+   */
+  protected traceCandidate(box: Box, left: number, top: number, right: number, bottom: number, rotated: boolean, score: number) {
+    if (this.traceStep) this.traceStep.candidates.push(this.toTraceCandidate(box, { left, top, right, bottom }, rotated, score));
+  }
+
+  /**
+   * Finishes the current step of a traced packing with the placed box and the free space after the step.
+   *
+   * @param box - The placed box in packing area coordinates, undefined if no box found free space.
+   * @param score - The score of the placed box.
+   */
+  private endTraceStep(box?: Box, score?: number) {
+    const step = this.traceStep;
+    if (!step) return;
+    if (box) step.chosen = this.toTraceCandidate(box, box, box.rotated, score);
+    step.freeAfter = this.traceFreeSpace();
+    this.trace.steps.push(step);
+    this.traceStep = undefined;
+  }
+
+  /**
+   * Converts a scored position from the packing area to the container coordinates.
+   */
+  private toTraceCandidate(box: Box, position: Rect, rotated: boolean, score: number): TraceCandidate {
+    const { left, top } = this.margins;
+    const right = position.right + left - this.spacing;
+    const bottom = position.bottom + top - this.spacing;
+    return { id: box.id, instance: box.instance, left: position.left + left, top: position.top + top, right, bottom, rotated, score };
+  }
+
+  /**
+   * Lists the free space in container coordinates, leaving out the free areas narrower than the spacing.
+   */
+  private traceFreeSpace(): Rect[] {
+    return this.freeSpace()
+      .map(box => this.toContainerBox(box))
+      .filter(box => box.right > box.left && box.bottom > box.top)
+      .map(({ left, top, right, bottom }) => ({ left, top, right, bottom }));
+  }
+
+  /**
+   * Calculates an upper limit of the score of a box anywhere in the container.
+   * Overlapping reserved areas may share an edge of the box, so the limit is not known then.
+   *
+   * @param box - The box to be checked.
+   * @returns The limit, Infinity if it is not known.
+   */
+  protected scoreLimit(box: Box) {
+    if (this.hasOverlappingReserved) return Infinity;
+    return scoreLimit(this.heuristic, box.width + this.spacing, box.height + this.spacing, this.context);
+  }
+
+  /**
+   * Adds a packed box to the layout and to the index of the boxes around the candidate positions.
+   *
+   * @param box - The box in packing area coordinates.
+   */
+  private placeBox(box: Box) {
+    this.addPackedBox(box);
+    this.nearIndex.insert(box);
+  }
+
+  /**
+   * Converts a packed box from the packing area to the container coordinates,
+   * shifting it by the margins and removing the spacing it carries.
+   *
+   * @param box - The packed box.
+   * @returns A new box in container coordinates.
+   */
+  protected toContainerBox(box: Box): Box {
+    const { left, top } = this.margins;
+    const result = box.clone();
+    result.setCoord(box.left + left, box.top + top, box.right + left - this.spacing, box.bottom + top - this.spacing);
+    return result;
+  }
+
+  /**
+   * Converts an area from the container to the packing area coordinates, adding the spacing it keeps
+   * from the boxes and clipping it to the packing area.
+   *
+   * @param box - The area in container coordinates.
+   * @returns A new box in packing area coordinates, empty if the area lies within the margins.
+   */
+  protected toPackingBox(box: Box): Box {
+    const { left, top } = this.margins;
+    return Box.createFromCoord(
+      Math.max(0, box.left - left),
+      Math.max(0, box.top - top),
+      Math.max(0, Math.min(this.innerWidth, box.right - left + this.spacing)),
+      Math.max(0, Math.min(this.innerHeight, box.bottom - top + this.spacing))
+    );
+  }
+
+  /**
+   * Converts an area outside of the container shape to the packing area coordinates.
+   * The area acts as a wall, so it is shifted by the spacing the boxes carry along their right and bottom edges.
+   * An area narrower than the spacing keeps its place, leaving a gap next to it.
+   *
+   * @param rect - The area in container coordinates.
+   * @returns A new box in packing area coordinates.
+   */
+  protected toWallBox(rect: Rect): Box {
+    const { left, top } = this.margins;
+    const right = rect.right >= this.containerWidth ? this.innerWidth : Math.min(this.innerWidth, rect.right - left);
+    const bottom = rect.bottom >= this.containerHeight ? this.innerHeight : Math.min(this.innerHeight, rect.bottom - top);
+    const shiftedLeft = rect.left - left + this.spacing;
+    const shiftedTop = rect.top - top + this.spacing;
+    return Box.createFromCoord(
+      rect.left <= 0 ? 0 : Math.max(0, shiftedLeft < right ? shiftedLeft : rect.left - left),
+      rect.top <= 0 ? 0 : Math.max(0, shiftedTop < bottom ? shiftedTop : rect.top - top),
+      right,
+      bottom
+    );
+  }
+
+  /**
+   * Finds the corner of the packing area where the remaining free space ends: the bottom-right corner
+   * of a rectangular container, or the corner of the container shape farthest from the origin.
+   *
+   * @returns The coordinates of the corner.
+   */
+  protected farCorner(): [number, number] {
+    if (!this.shape) return [this.innerWidth, this.innerHeight];
+
+    let corner: [number, number] = [0, 0];
+    for (const rect of this.shape) {
+      const x = rect.right >= this.containerWidth ? this.innerWidth : rect.right - this.margins.left + this.spacing;
+      const y = rect.bottom >= this.containerHeight ? this.innerHeight : rect.bottom - this.margins.top + this.spacing;
+      if (x + y > corner[0] + corner[1]) corner = [x, y];
+    }
+    return corner;
+  }
+
+  /**
+   * Sets up the free space of an empty container. Called during the preparation phase before the reserved areas are removed.
+   */
+  protected abstract initContainer(): void;
+
+  /**
+   * Removes a reserved area, an obstacle or a fixed box, from the free space of the container.
+   *
+   * @param box - The reserved area in packing area coordinates.
+   */
+  protected abstract reserveBox(box: Box): void;
+
+  /**
+   * Finds the best position for a given box within the free space.
+   * If the box does not fit anywhere, the score of the test box is set to -Infinity.
+   *
+   * @param box - The box to be positioned.
+   * @param testBox - The test box to store the final coordinates and score.
+   */
+  protected abstract findBoxPosition(box: Box, testBox: Box): void;
+
+  /**
+   * Adds a packed box to the list of packed boxes and removes the space it occupies from the free space.
+   *
+   * @param box - The box to be added to the list of packed boxes.
+   */
+  protected abstract addPackedBox(box: Box): void;
+
+  /**
+   * Calculates the fullness ratio of the container based on the free space and the packed boxes.
+   *
+   * @returns The fullness ratio, ranging from 0 to 1, where 0 means empty and 1 means fully occupied.
+   */
+  protected abstract calculateFullness(): number;
+
+  /**
+   * Lists the free space of the algorithm as rectangles, which may overlap each other, for the trace of a packing.
+   *
+   * @returns The free rectangles in packing area coordinates.
+   */
+  protected abstract freeSpace(): Box[];
+
+  /**
+   * Finds the best scored position for a given box at the top-left corners of the free boxes,
+   * trying both orientations allowed by the rotation policy of the box.
+   *
+   * @param freeBoxes - The free boxes to be checked.
+   * @param box - The box to be positioned.
+   * @param testBox - The test box to store the final coordinates and score.
+   * @param accepts - An extra check of a free box and the placed size of the box (optional).
+   * @returns The free box holding the best position, or undefined if the box does not fit.
+   */
+  protected findInFreeBoxes(
+    freeBoxes: Box[],
+    box: Box,
+    testBox: Box,
+    accepts: (freeBox: Box, width: number, height: number) => boolean = () => true
+  ) {
+    let bestScore = -Infinity;
+    let bestFreeBox: Box | undefined;
+
+    const scorer = resolveScorer(this.heuristic);
+    const rotation = this.rotationOf(box);
+    const canKeep = isOrientationAllowed(rotation, box.rotated);
+    const canTurn = isOrientationAllowed(rotation, !box.rotated);
+    const width = box.width + this.spacing;
+    const height = box.height + this.spacing;
+
+    for (const freeBox of freeBoxes) {
+      // Check if the box can fit horizontally
+      if (canKeep && freeBox.width >= width && freeBox.height >= height && accepts(freeBox, width, height)) {
+        let score = scorer(freeBox.left, freeBox.top, freeBox.left + width, freeBox.top + height, freeBox, this.context);
+        this.traceCandidate(box, freeBox.left, freeBox.top, freeBox.left + width, freeBox.top + height, box.rotated, score);
+        if (score > bestScore) {
+          testBox.setCoord(freeBox.left, freeBox.top, freeBox.left + width, freeBox.top + height);
+          testBox.rotated = box.rotated;
+          bestScore = score;
+          bestFreeBox = freeBox;
+        }
+      }
+      // Check if the box can fit vertically
+      if (canTurn && freeBox.width >= height && freeBox.height >= width && accepts(freeBox, height, width)) {
+        let score = scorer(freeBox.left, freeBox.top, freeBox.left + height, freeBox.top + width, freeBox, this.context);
+        this.traceCandidate(box, freeBox.left, freeBox.top, freeBox.left + height, freeBox.top + width, !box.rotated, score);
+        if (score > bestScore) {
+          testBox.setCoord(freeBox.left, freeBox.top, freeBox.left + height, freeBox.top + width);
+          testBox.rotated = !box.rotated;
+          bestScore = score;
+          bestFreeBox = freeBox;
+        }
+      }
+    }
+    testBox.mark = bestScore;
+    testBox.id = box.id;
+    return bestFreeBox;
+  }
+
+  /**
+   * Retrieves the fullness ratio of the container. If the fullness has not been calculated yet,
+   * it calculates it using the `calculateFullness` method and returns the result.
+   *
+   * @returns The fullness ratio, ranging from 0 to 1, where 0 means empty and 1 means fully occupied.
+   */
+  get fullness() {
+    if (this._fullness === -1) this._fullness = this.calculateFullness();
+    return this._fullness;
+  }
+
+  boxesSize() {
+    return this.boxes.length;
+  }
+
+  getBoxes() {
+    return this.boxes;
+  }
+
+  /**
+   * Builds a structured report of the last packing, packing the boxes first if needed.
+   *
+   * @returns The placed boxes with coordinates and rotation flag, the boxes that found no free space
+   * and the boxes rejected before packing, each with a reason code.
+   */
+  getResult(): PackResult<T> {
+    this.packIfNeeded();
+
+    return {
+      placed: this.placedBoxes.map(box => toPlacedBox<T>(box)),
+      unplaced: this.notPlacedBoxes.map(box => toUnplacedBox<T>(box, "no-space")),
+      rejected: this.badBoxes.map(box => toUnplacedBox<T>(box, this.rejectReason(box))),
+      fullness: this.fullness,
+      value: totalValue(this.placedBoxes)
+    };
+  }
+
+  /**
+   * Measures the last layout, packing the boxes first if needed.
+   *
+   * @param options - The smallest size of a reusable offcut, in either orientation (optional, default is any size).
+   * @returns The utilization of the container and of the bounding box of the boxes, the waste regions,
+   * the largest free rectangle and the reusable offcuts.
+   */
+  getMetrics(options: MetricsOptions = {}): LayoutMetrics {
+    this.packIfNeeded();
+
+    const container = {
+      width: this.containerWidth,
+      height: this.containerHeight,
+      shape: this.shape,
+      obstacles: this.obstacles.map(({ left, top, width, height }) => ({ left, top, width, height })),
+      margins: this.margins
+    };
+    return measureLayout(container, this.placedBoxes, options);
+  }
+
+  /**
+   * Retrieves the trace of the last packing, packing the boxes first if needed.
+   *
+   * @returns The steps of the packing in container coordinates, or undefined if tracing is disabled, see `setTracing`.
+   * Every step holds the scored positions of the remaining boxes, the chosen placement, if any box fits,
+   * and the free space before and after the placement.
+   */
+  getTrace(): PackTrace | undefined {
+    this.packIfNeeded();
+    return this.trace;
+  }
+
+  /**
+   * Retrieves the boxes that passed the size filter but found no free space during the last packing.
+   *
+   * @returns An array of boxes left out of the container.
+   */
+  getNotPlacedBoxes() {
+    return this.notPlacedBoxes;
+  }
+
+  /**
+   * Retrieves the boxes rejected by the size filter during the last preparation.
+   *
+   * @returns An array of oversized or non-positive boxes.
+   */
+  getBadBoxes() {
+    return this.badBoxes;
+  }
+}
+
+/**
+ * Orders boxes by their value per unit of area, the most valuable first.
+ */
+function byValueDensity(a: Box, b: Box) {
+  return (b.value || 0) / b.square() - (a.value || 0) / a.square();
+}
+
+/**
+ * Waits for the next turn of the event loop, so the pending events are handled before the packing continues.
+ */
+function nextSlice() {
+  return new Promise<void>(resolve => setTimeout(resolve, 0));
+}
+
+export default BasePacker;
@@ -1,3 +1,5 @@
+import { RotationPolicy } from "./types";
+
 export class Box {
   private _width: number;
   private _height: number;
@@ -8,6 +10,13 @@ export class Box {
   private _id: number;
   private _mark: number;
   needRemove: boolean = false;
+  rotated: boolean = false;
+  rotation?: RotationPolicy;
+  instance: number = 0;
+  label?: string;
+  payload?: unknown;
+  value?: number;
+  mandatory?: boolean;
 
   constructor(width = 0, height = 0, left = 0, top = 0, right = 0, bottom = 0, id = 0, mark = 0) {
     this._width = width;
@@ -69,7 +78,24 @@ export class Box {
   }
 
   clone(): Box {
-    return new Box(this.width, this.height, this.left, this.top, this.right, this.bottom, this.id, 0);
+    const box = new Box(this.width, this.height, this.left, this.top, this.right, this.bottom, this.id, 0);
+    box.rotated = this.rotated;
+    box.rotation = this.rotation;
+    box.instance = this.instance;
+    box.label = this.label;
+    box.payload = this.payload;
+    box.value = this.value;
+    box.mandatory = this.mandatory;
+    return box;
+  }
+
+  setIdentity(box: Box) {
+    this._id = box.id;
+    this.instance = box.instance;
+    this.label = box.label;
+    this.payload = box.payload;
+    this.value = box.value;
+    this.mandatory = box.mandatory;
   }
 
   setSize(width: number, height: number) {
@@ -0,0 +1,417 @@
+import BasePacker from "./BasePacker";
+import { Box } from "./Box";
+import { freeSpaceFullness } from "./fullness";
+import SpatialIndex from "./SpatialIndex";
+import { Cut, CutAxis, GuillotineSplit, PackDirection } from "./types";
+
+type Piece = { stage: number; axis?: CutAxis; depth: number };
+
+/**
+ * GuillotinePacker class for packing boxes into a container with straight edge-to-edge splits.
+ * The free space is kept as a list of disjoint free rectangles, every placement splits
+ * the free rectangle it lands in into two smaller ones.
+ */
+class GuillotinePacker<T = unknown> extends BasePacker<T> {
+  private freeBoxes: Box[] = [];
+  private freeIndex: SpatialIndex;
+  private pieces = new Map<Box, Piece>();
+  private cuts: Cut[] = [];
+  private cutMode = false;
+  private maxStages = Infinity;
+
+  constructor(
+    containerWidth: number,
+    containerHeight: number,
+    direction: PackDirection = "none",
+    private splitRule: GuillotineSplit = "shorter-leftover-axis",
+    private merge = true
+  ) {
+    super(containerWidth, containerHeight, direction);
+  }
+
+  /**
+   * Set the rule that chooses the axis along which a free box is split after a placement.
+   * @param splitRule - The split rule.
+   * @remarks
+   * - "shorter-leftover-axis": Split along the side with the shorter leftover (default).
+   * - "longer-leftover-axis": Split along the side with the longer leftover.
+   * - "shorter-axis": Split along the shorter side of the free box.
+   * - "longer-axis": Split along the longer side of the free box.
+   * - "min-area": Make the smaller of the two new free boxes as small as possible.
+   * - "max-area": Make the larger of the two new free boxes as large as possible.
+   */
+  setSplitRule(splitRule: GuillotineSplit) {
+    this.splitRule = splitRule;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Enables or disables merging of neighbouring free boxes that share a whole edge.
+   * @param merge - Whether the free boxes should be merged.
+   */
+  setMerge(merge: boolean) {
+    this.merge = merge;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Enables or disables the cut mode, in which every layout can be cut with edge-to-edge straight cuts
+   * and the sequence of these cuts is recorded.
+   * @param enabled - Whether the cut mode is enabled.
+   * @param maxStages - The maximum number of cut stages, e.g. 2 or 3 (optional, default is unlimited).
+   * @remarks
+   * A stage is a series of parallel cuts, every change of the cut direction starts a new stage.
+   * Trim cuts that bring a part to its final size count as stages too.
+   * Merging of free boxes is not used in the cut mode, because a merged free box may span a cut.
+   */
+  setCutMode(enabled: boolean, maxStages = Infinity) {
+    this.cutMode = enabled;
+    this.maxStages = maxStages;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Retrieves the cuts of the last packing in the cut mode, ordered by stage.
+   * Cuts of the same stage keep the order they were made in, so every cut comes after the cut that produced its piece.
+   *
+   * @returns An array of cuts with the axis, the position, the piece being cut, the stage and the depth,
+   * in container coordinates like the placed boxes. The position of a cut is the far edge of the part before it,
+   * the spacing that follows is the width of the cut.
+   */
+  getCuts(): Cut[] {
+    this.packIfNeeded();
+    return this.cuts
+      .map((cut, index) => ({ cut, index }))
+      .sort((a, b) => a.cut.stage - b.cut.stage || a.index - b.index)
+      .map(({ cut }) => this.toContainerCut(cut));
+  }
+
+  /**
+   * Converts a cut from the packing area to the container coordinates, shifting it by the margins
+   * and removing the spacing the piece carries, like `toContainerBox` does for a packed box.
+   *
+   * @param cut - The cut in packing area coordinates.
+   * @returns A new cut in container coordinates.
+   */
+  private toContainerCut(cut: Cut): Cut {
+    const { piece } = cut;
+    const { left, top, right, bottom } = this.toContainerBox(Box.createFromCoord(piece.left, piece.top, piece.right, piece.bottom));
+    const offset = cut.axis === "horizontal" ? this.margins.top : this.margins.left;
+    return { ...cut, position: cut.position + offset - this.spacing, piece: { left, top, right, bottom } };
+  }
+
+  /**
+   * Resets the state of the packing algorithm, clearing various lists and resetting variables.
+   */
+  protected reset() {
+    super.reset();
+    this.freeBoxes.length = 0;
+    this.pieces.clear();
+    this.cuts.length = 0;
+  }
+
+  /**
+   * Adds an initial free box covering the whole packing area.
+   */
+  protected initContainer() {
+    this.freeIndex = new SpatialIndex(this.innerWidth, this.innerHeight, this.cellSize());
+    this.addFreeBox(0, 0, this.innerWidth, this.innerHeight, { stage: 0, depth: 0 });
+  }
+
+  /**
+   * Finds the best position for a given box within the available free boxes.
+   *
+   * @param box - The box to be positioned.
+   * @param testBox - The test box to store the final coordinates and score.
+   */
+  protected findBoxPosition(box: Box, testBox: Box) {
+    if (this.cutMode && this.maxStages !== Infinity) {
+      const accepts = (freeBox: Box, width: number, height: number) => this.chooseSplit(freeBox, width, height) !== undefined;
+      this.findInFreeBoxes(this.freeBoxes, box, testBox, accepts);
+    } else {
+      this.findInFreeBoxes(this.freeBoxes, box, testBox);
+    }
+  }
+
+  /**
+   * Adds a packed box to the list of packed boxes, replacing the free box it was placed in
+   * with the two parts left after the split.
+   *
+   * @param box - The box to be added to the list of packed boxes.
+   */
+  protected addPackedBox(box: Box) {
+    const freeBox = this.freeIndex.search(box.left, box.top, box.left, box.top).find(freeBox => Box.isContained(box, freeBox));
+    const count = this.freeBoxes.length;
+
+    this.splitFreeBox(freeBox, box);
+    const added = this.freeBoxes.slice(count);
+    this.removeFreeBox(freeBox);
+    if (this.merge && !this.cutMode) this.mergeFreeBoxes(added);
+    this.packedBoxes.push(box);
+  }
+
+  /**
+   * Removes an area from the free space, cutting every intersecting free box into the parts above and below the area
+   * across the free box, then the parts to the left and to the right of the area.
+   *
+   * @param box - The area to be removed.
+   */
+  protected reserveBox(box: Box) {
+    const added: Box[] = [];
+    for (const freeBox of this.freeBoxes.filter(freeBox => Box.isSeparated(freeBox, box))) {
+      let piece = this.pieces.get(freeBox);
+      let { left, top, right, bottom } = freeBox;
+      this.removeFreeBox(freeBox);
+      const count = this.freeBoxes.length;
+
+      const above = this.cut(Box.createFromCoord(left, top, right, bottom), piece, "horizontal", box.top);
+      if (above) {
+        this.addFreeBox(left, top, right, box.top, above);
+        top = box.top;
+        piece = above;
+      }
+      const below = this.cut(Box.createFromCoord(left, top, right, bottom), piece, "horizontal", box.bottom);
+      if (below) {
+        this.addFreeBox(left, box.bottom, right, bottom, below);
+        bottom = box.bottom;
+        piece = below;
+      }
+      const before = this.cut(Box.createFromCoord(left, top, right, bottom), piece, "vertical", box.left);
+      if (before) {
+        this.addFreeBox(left, top, box.left, bottom, before);
+        left = box.left;
+        piece = before;
+      }
+      const after = this.cut(Box.createFromCoord(left, top, right, bottom), piece, "vertical", box.right);
+      if (after) this.addFreeBox(box.right, top, right, bottom, after);
+      added.push(...this.freeBoxes.slice(count));
+    }
+    if (this.merge && !this.cutMode) this.mergeFreeBoxes(added);
+  }
+
+  /**
+   * Splits the given free box into the part below the box and the part to the right of it.
+   * The split rule decides which of the two parts spans the whole free box, in the cut mode the cuts are recorded.
+   *
+   * @param freeBox - The free box to be split.
+   * @param box - The box placed at the top-left corner of the free box.
+   */
+  private splitFreeBox(freeBox: Box, box: Box) {
+    const piece = this.pieces.get(freeBox);
+    const horizontal = this.chooseSplit(freeBox, box.width, box.height);
+
+    if (horizontal) {
+      // Cut off the part below the box across the free box, then the part to the right of the box
+      const strip = this.cut(freeBox, piece, "horizontal", box.bottom);
+      if (strip) this.addFreeBox(freeBox.left, box.bottom, freeBox.right, freeBox.bottom, strip);
+      const upper = Box.createFromCoord(freeBox.left, freeBox.top, freeBox.right, box.bottom);
+      const rest = this.cut(upper, strip || piece, "vertical", box.right);
+      if (rest) this.addFreeBox(box.right, freeBox.top, freeBox.right, box.bottom, rest);
+    } else {
+      // Cut off the part to the right of the box across the free box, then the part below the box
+      const strip = this.cut(freeBox, piece, "vertical", box.right);
+      if (strip) this.addFreeBox(box.right, freeBox.top, freeBox.right, freeBox.bottom, strip);
+      const left = Box.createFromCoord(freeBox.left, freeBox.top, box.right, freeBox.bottom);
+      const rest = this.cut(left, strip || piece, "horizontal", box.bottom);
+      if (rest) this.addFreeBox(freeBox.left, box.bottom, box.right, freeBox.bottom, rest);
+    }
+  }
+
+  /**
+   * Decides along which axis the free box is split after placing a box of the given size at its top-left corner.
+   * In the cut mode with a stage limit, a split that needs too many stages is replaced by the other one.
+   *
+   * @param freeBox - The free box to be split.
+   * @param width - The width of the placed box.
+   * @param height - The height of the placed box.
+   * @returns True for a horizontal split, false for a vertical split, undefined if both exceed the stage limit.
+   */
+  private chooseSplit(freeBox: Box, width: number, height: number): boolean | undefined {
+    const leftoverX = freeBox.width - width;
+    const leftoverY = freeBox.height - height;
+    let horizontal: boolean;
+
+    switch (this.splitRule) {
+      case "longer-leftover-axis":
+        horizontal = leftoverX > leftoverY;
+        break;
+      case "shorter-axis":
+        horizontal = freeBox.width <= freeBox.height;
+        break;
+      case "longer-axis":
+        horizontal = freeBox.width > freeBox.height;
+        break;
+      case "min-area":
+        horizontal = width * leftoverY > leftoverX * height;
+        break;
+      case "max-area":
+        horizontal = width * leftoverY <= leftoverX * height;
+        break;
+      default:
+        horizontal = leftoverX <= leftoverY;
+    }
+
+    if (!this.cutMode || this.maxStages === Infinity) return horizontal;
+
+    const piece = this.pieces.get(freeBox);
+    if (this.splitStages(piece, leftoverX, leftoverY, horizontal) <= this.maxStages) return horizontal;
+    if (this.splitStages(piece, leftoverX, leftoverY, !horizontal) <= this.maxStages) return !horizontal;
+    return undefined;
+  }
+
+  /**
+   * Calculates the highest stage of the cuts needed to split a piece.
+   *
+   * @param piece - The piece of the free box.
+   * @param leftoverX - The width of the free box left to the right of the placed box.
+   * @param leftoverY - The height of the free box left below the placed box.
+   * @param horizontal - Whether the first cut is horizontal.
+   * @returns The highest stage, or the stage of the piece if no cut is needed.
+   */
+  private splitStages(piece: Piece, leftoverX: number, leftoverY: number, horizontal: boolean) {
+    const [first, second]: CutAxis[] = horizontal ? ["horizontal", "vertical"] : ["vertical", "horizontal"];
+    const firstNeeded = horizontal ? leftoverY > 0 : leftoverX > 0;
+    const secondNeeded = horizontal ? leftoverX > 0 : leftoverY > 0;
+    let current = piece;
+
+    if (firstNeeded) current = { stage: this.stageOf(current, first), axis: first, depth: current.depth + 1 };
+    if (secondNeeded) current = { stage: this.stageOf(current, second), axis: second, depth: current.depth + 1 };
+    return current.stage;
+  }
+
+  /**
+   * Calculates the stage of a cut made on a piece.
+   *
+   * @param piece - The piece being cut.
+   * @param axis - The axis of the cut.
+   * @returns The stage of the piece for a cut parallel to the one that produced it, otherwise the next stage.
+   */
+  private stageOf(piece: Piece, axis: CutAxis) {
+    return piece.axis === axis ? piece.stage : piece.stage + 1;
+  }
+
+  /**
+   * Records a cut of a piece if the cut position lies inside the piece.
+   *
+   * @param rect - The piece being cut.
+   * @param piece - The stage information of the piece.
+   * @param axis - The axis of the cut.
+   * @param position - The coordinate of the cut along the other axis.
+   * @returns The stage information of both parts, or undefined if no cut is needed.
+   */
+  private cut(rect: Box, piece: Piece, axis: CutAxis, position: number): Piece | undefined {
+    const start = axis === "horizontal" ? rect.top : rect.left;
+    const end = axis === "horizontal" ? rect.bottom : rect.right;
+    if (position <= start || position >= end) return undefined;
+
+    const result: Piece = { stage: this.stageOf(piece, axis), axis, depth: piece.depth + 1 };
+    if (this.cutMode) {
+      const { left, top, right, bottom } = rect;
+      this.cuts.push({ axis, position, piece: { left, top, right, bottom }, stage: result.stage, depth: result.depth });
+    }
+    return result;
+  }
+
+  /**
+   * Adds a new free box to the list of free boxes if it is not empty.
+   *
+   * @param left - The left coordinate of the new free box.
+   * @param top - The top coordinate of the new free box.
+   * @param right - The right coordinate of the new free box.
+   * @param bottom - The bottom coordinate of the new free box.
+   * @param piece - The stage information of the new free box.
+   */
+  private addFreeBox(left: number, top: number, right: number, bottom: number, piece: Piece) {
+    if (right <= left || bottom <= top) return;
+    const box = Box.createFromCoord(left, top, right, bottom);
+    this.freeBoxes.push(box);
+    this.freeIndex.insert(box);
+    this.pieces.set(box, piece);
+  }
+
+  /**
+   * Removes a free box from the list of free boxes and from the index.
+   *
+   * @param freeBox - The free box to be removed.
+   */
+  private removeFreeBox(freeBox: Box) {
+    this.freeBoxes.splice(this.freeBoxes.indexOf(freeBox), 1);
+    this.freeIndex.remove(freeBox);
+    this.pieces.delete(freeBox);
+  }
+
+  /**
+   * Merges pairs of free boxes that share a whole edge into single free boxes until no such pair is left.
+   * The other free boxes have no such pairs already, so only the new free boxes and the merged ones are checked.
+   * Of all pairs the one coming first in the list of free boxes is merged first, and the earlier box of the pair
+   * is grown in place.
+   *
+   * @param added - The free boxes added since the last merge.
+   */
+  private mergeFreeBoxes(added: Box[]) {
+    const changed = new Set(added);
+    const order = (box: Box) => this.freeIndex.orderOf(box);
+
+    while (changed.size) {
+      let first: [Box, Box];
+      for (const box of changed) {
+        const pairs = this.freeIndex
+          .search(box.left, box.top, box.right, box.bottom)
+          .filter(other => other !== box && canMerge(box, other))
+          .map((other): [Box, Box] => (order(box) < order(other) ? [box, other] : [other, box]));
+
+        // A box without a pair can only get one when its neighbour changes, and the neighbour is checked then
+        if (!pairs.length) changed.delete(box);
+        for (const pair of pairs) {
+          if (!first || order(pair[0]) < order(first[0]) || (pair[0] === first[0] && order(pair[1]) < order(first[1]))) {
+            first = pair;
+          }
+        }
+      }
+      if (!first) return;
+
+      const [a, b] = first;
+      const position = order(a);
+      this.removeFreeBox(b);
+      changed.delete(b);
+      this.freeIndex.remove(a);
+      a.setCoord(Math.min(a.left, b.left), Math.min(a.top, b.top), Math.max(a.right, b.right), Math.max(a.bottom, b.bottom));
+      this.freeIndex.insert(a, position);
+      changed.add(a);
+    }
+  }
+
+  /**
+   * Lists the disjoint free rectangles.
+   *
+   * @returns The free boxes.
+   */
+  protected freeSpace() {
+    return this.freeBoxes;
+  }
+
+  /**
+   * Calculates the fullness ratio of the container based on the free and packed boxes.
+   *
+   * @returns The fullness ratio, ranging from 0 to 1, where 0 means empty and 1 means fully occupied.
+   */
+  protected calculateFullness() {
+    const [cornerX, cornerY] = this.farCorner();
+    return freeSpaceFullness(this.freeBoxes, this.packedBoxes, cornerX, cornerY);
+  }
+}
+
+/**
+ * Checks whether two free boxes share a whole edge, so together they form a rectangle.
+ *
+ * @param a - The first free box.
+ * @param b - The second free box.
+ * @returns True if the free boxes can be merged.
+ */
+function canMerge(a: Box, b: Box) {
+  if (a.left === b.left && a.right === b.right) return a.bottom === b.top || b.bottom === a.top;
+  if (a.top === b.top && a.bottom === b.bottom) return a.right === b.left || b.right === a.left;
+  return false;
+}
+
+export default GuillotinePacker;
@@ -0,0 +1,71 @@
+import { Box } from "./Box";
+import SpatialIndex from "./SpatialIndex";
+import { Rect } from "./types";
+
+/**
+ * MaximalRects class for tracking the free space of an area as the list of its maximal free rectangles,
+ * the free rectangles that cannot grow in any direction. The rectangles overlap each other,
+ * every free point of the area lies in at least one of them.
+ */
+class MaximalRects {
+  private rects = new Set<Box>();
+  private index: SpatialIndex;
+
+  /**
+   * Creates the free space of an empty area.
+   *
+   * @param area - The area, its free space is a single rectangle at first.
+   * @param cellSize - The preferred cell size of the spatial index, e.g. the average size of the occupied rectangles.
+   */
+  constructor(area: Rect, cellSize: number) {
+    this.index = new SpatialIndex(area.right, area.bottom, cellSize);
+    if (area.right > area.left && area.bottom > area.top) this.add(Box.createFromCoord(area.left, area.top, area.right, area.bottom));
+  }
+
+  /**
+   * Removes an area from the free space. Every free rectangle overlapping the area is replaced
+   * by its parts to the left, to the right, above and below the area, and the parts lying inside
+   * other free rectangles are dropped.
+   *
+   * @param area - The occupied area.
+   */
+  occupy(area: Rect) {
+    const pieces: Box[] = [];
+    for (const rect of this.index.search(area.left, area.top, area.right, area.bottom)) {
+      if (rect.left >= area.right || rect.right <= area.left || rect.top >= area.bottom || rect.bottom <= area.top) continue;
+      this.remove(rect);
+      if (area.left > rect.left) pieces.push(Box.createFromCoord(rect.left, rect.top, area.left, rect.bottom));
+      if (area.right < rect.right) pieces.push(Box.createFromCoord(area.right, rect.top, rect.right, rect.bottom));
+      if (area.top > rect.top) pieces.push(Box.createFromCoord(rect.left, rect.top, rect.right, area.top));
+      if (area.bottom < rect.bottom) pieces.push(Box.createFromCoord(rect.left, area.bottom, rect.right, rect.bottom));
+    }
+
+    for (const piece of pieces) this.add(piece);
+    // A rectangle holding a piece overlaps it, so the index finds it. Of two equal pieces the first one is dropped
+    for (const piece of pieces) {
+      const holders = this.index.search(piece.left, piece.top, piece.right, piece.bottom);
+      if (holders.some(rect => rect !== piece && Box.isContained(piece, rect))) this.remove(piece);
+    }
+  }
+
+  /**
+   * Retrieves the maximal free rectangles.
+   *
+   * @returns The rectangles in no particular order.
+   */
+  getRects(): Rect[] {
+    return Array.from(this.rects, ({ left, top, right, bottom }) => ({ left, top, right, bottom }));
+  }
+
+  private add(rect: Box) {
+    this.rects.add(rect);
+    this.index.insert(rect);
+  }
+
+  private remove(rect: Box) {
+    this.rects.delete(rect);
+    this.index.remove(rect);
+  }
+}
+
+export default MaximalRects;
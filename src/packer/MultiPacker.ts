@@ -0,0 +1,232 @@
+import { Box } from "./Box";
+import { createPacker } from "./createPacker";
+import { assertMandatoryPlaced } from "./errors";
+import { IdSequence, instancesOf } from "./input";
+import { optionsOf, sourceSize, totalValue, toPlacedBox, toUnplacedBox } from "./result";
+import { toMargins } from "./margins";
+import { fitsContainer } from "./rotation";
+import {
+  BinLayout,
+  BoxOptions,
+  ContainerSpec,
+  MultiPackResult,
+  PackAlgorithm,
+  PackDirection,
+  PackerOptions,
+  RejectReason,
+  Size
+} from "./types";
+
+/**
+ * MultiPacker class for packing boxes into as many containers as needed.
+ * Every container is filled by its own packer, the boxes left over are carried to the next one.
+ */
+class MultiPacker<T = unknown> {
+  private boxes: Box[] = [];
+  private containers: ContainerSpec[] = [];
+  private bins: BinLayout[] = [];
+  private notPlacedBoxes: Box[] = [];
+  private options: PackerOptions = {};
+  private algorithm: PackAlgorithm = "maxrects";
+  private ids = new IdSequence();
+
+  constructor(containers: Size | ContainerSpec[], direction: PackDirection = "none") {
+    this.setContainers(containers);
+    this.setDirection(direction);
+  }
+
+  /**
+   * Sets the containers that can be opened during packing.
+   *
+   * @param containers - A single container size, reused without limit, or a list of container specs.
+   * @remarks
+   * Containers with a higher `priority` are opened first, containers with equal priority keep their list order.
+   * A container with `limit` can be opened at most `limit` times, otherwise it is unlimited.
+   */
+  setContainers(containers: Size | ContainerSpec[]) {
+    const list: ContainerSpec[] = Array.isArray(containers) ? containers : [containers];
+    this.containers = list
+      .map((spec, index) => ({ spec, index }))
+      .sort((a, b) => (b.spec.priority || 0) - (a.spec.priority || 0) || a.index - b.index)
+      .map(({ spec }) => spec);
+    this.bins.length = 0;
+  }
+
+  /**
+   * Set the packing direction used inside every container.
+   * @param direction - The packing direction.
+   */
+  setDirection(direction: PackDirection) {
+    this.options.direction = direction;
+    this.bins.length = 0;
+  }
+
+  /**
+   * Set the packing algorithm used inside every container.
+   * @param algorithm - The packing algorithm.
+   */
+  setAlgorithm(algorithm: PackAlgorithm) {
+    this.algorithm = algorithm;
+    this.bins.length = 0;
+  }
+
+  /**
+   * Applies packing options used inside every container. Options that are not specified keep their current values.
+   *
+   * @param options - The packing options.
+   */
+  setOptions(options: PackerOptions) {
+    this.options = { ...this.options, ...options };
+    this.bins.length = 0;
+  }
+
+  /**
+   * Adds a box to the list of boxes.
+   *
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @param id - The identifier for the box (optional, default is the next unused identifier).
+   * @param options - Per-box options, e.g. a rotation policy, a quantity or a payload (optional).
+   * @returns The identifier of the box.
+   */
+  addBox(width: number, height: number, id?: number, options: BoxOptions<T> = {}) {
+    const boxId = this.ids.take(id);
+    for (const instance of instancesOf(options)) {
+      const box = Box.createFromSize(width, height, boxId);
+      box.rotation = instance.rotation;
+      box.instance = instance.instance;
+      box.label = instance.label;
+      box.payload = instance.payload;
+      box.value = instance.value;
+      box.mandatory = instance.mandatory;
+      this.boxes.push(box);
+    }
+    this.bins.length = 0;
+    return boxId;
+  }
+
+  /**
+   * Clears all boxes and packed containers.
+   */
+  clear() {
+    this.boxes.length = 0;
+    this.bins.length = 0;
+    this.notPlacedBoxes.length = 0;
+    this.ids.reset();
+  }
+
+  /**
+   * Packs the boxes, opening a new container whenever the previous ones are full.
+   * For every new container the specs are tried in priority order and the first one
+   * that takes at least one of the remaining boxes is used.
+   * Packing stops when all boxes are placed or none of the available containers can take any of them.
+   *
+   * @returns An array of container layouts in the order they were opened.
+   * @throws MandatoryBoxError if a mandatory box is left out and the check is enabled, the layout stays available.
+   */
+  pack(): BinLayout[] {
+    const bins = this.bins;
+    const usage = this.containers.map(() => 0);
+    let remaining = this.boxes;
+
+    bins.length = 0;
+    this.notPlacedBoxes.length = 0;
+
+    while (remaining.length) {
+      let bin: BinLayout;
+
+      for (let i = 0; i < this.containers.length && !bin; i++) {
+        const spec = this.containers[i];
+        if (spec.limit !== undefined && usage[i] >= spec.limit) continue;
+
+        const packer = createPacker<T>(this.algorithm, spec.width, spec.height);
+        packer.setOptions({ ...this.options, mandatoryCheck: false });
+        for (const box of remaining) {
+          const { width, height } = sourceSize(box);
+          packer.addBox(width, height, box.id, optionsOf<T>(box));
+        }
+
+        const boxes = packer.pack();
+        if (!boxes.length) continue;
+
+        bin = { width: spec.width, height: spec.height, boxes, fullness: packer.fullness };
+        remaining = [...packer.getNotPlacedBoxes(), ...packer.getBadBoxes()];
+        usage[i]++;
+      }
+
+      if (!bin) break;
+      bins.push(bin);
+    }
+
+    this.notPlacedBoxes.push(...remaining);
+    if (this.options.mandatoryCheck !== false) {
+      const missing = remaining.filter(box => box.mandatory);
+      assertMandatoryPlaced(missing.map(box => toUnplacedBox(box, this.rejectReason(box))));
+    }
+    return bins;
+  }
+
+  /**
+   * Retrieves the number of containers opened during the last packing.
+   */
+  get binsUsed() {
+    return this.bins.length;
+  }
+
+  /**
+   * Builds a structured report of the last packing, packing the boxes first if needed.
+   *
+   * @returns The per-container placements, the number of containers used, the boxes left
+   * without space once the container limits were reached and the boxes no container can hold.
+   */
+  getResult(): MultiPackResult<T> {
+    if (!this.bins.length) this.pack();
+
+    const result: MultiPackResult<T> = {
+      bins: this.bins.map(({ width, height, boxes, fullness }) => ({
+        width,
+        height,
+        placed: boxes.map(box => toPlacedBox<T>(box)),
+        fullness
+      })),
+      binsUsed: this.binsUsed,
+      unplaced: [],
+      rejected: [],
+      value: 0
+    };
+    result.value = result.bins.reduce((sum, bin) => sum + totalValue(bin.placed), 0);
+
+    for (const box of this.notPlacedBoxes) {
+      const reason = this.rejectReason(box);
+      if (reason === "no-space") result.unplaced.push(toUnplacedBox<T>(box, reason));
+      else result.rejected.push(toUnplacedBox<T>(box, reason));
+    }
+
+    return result;
+  }
+
+  /**
+   * Determines why a box was left out of all containers.
+   *
+   * @param box - The box that was not placed.
+   * @returns "no-space" if some container could hold the box, otherwise the reason it fits none.
+   */
+  private rejectReason(box: Box): RejectReason {
+    if (box.width <= 0 || box.height <= 0) return "non-positive";
+    const rotation = box.rotation || this.options.rotation || "allowed";
+    const { top, right, bottom, left } = toMargins(this.options.margins || 0);
+    const fits = this.containers.some(spec => fitsContainer(box, rotation, spec.width - left - right, spec.height - top - bottom));
+    return fits ? "no-space" : "oversized";
+  }
+
+  /**
+   * Retrieves the boxes that did not fit into any available container during the last packing.
+   *
+   * @returns An array of boxes left out of all containers.
+   */
+  getNotPlacedBoxes() {
+    return this.notPlacedBoxes;
+  }
+}
+
+export default MultiPacker;
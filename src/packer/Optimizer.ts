@@ -0,0 +1,395 @@
+import BasePacker from "./BasePacker";
+import { createPacker } from "./createPacker";
+import { assertMandatoryPlaced } from "./errors";
+import { IdSequence, instancesOf } from "./input";
+import { createRandom } from "./random";
+import { BoxOptions, OptimizedResult, PackAlgorithm, PackerOptions, PackResult, RotationPolicy, SearchOptions, SortOrder } from "./types";
+
+type OptimizerBox<T> = { width: number; height: number; id: number; options: BoxOptions<T> };
+type Solution = { order: number[]; rotations: RotationPolicy[] };
+type Candidate = { solution: Solution; score: number; missing: number };
+
+const DEFAULT_SORT_ORDERS: SortOrder[] = ["width", "area", "perimeter", "max-side", "ratio"];
+const DEFAULT_ITERATIONS = 200;
+const DEFAULT_RESTART_AFTER = 100;
+const DEFAULT_POPULATION_SIZE = 20;
+const ROTATION_CYCLE: RotationPolicy[] = ["allowed", "forbidden", "forced"];
+
+/**
+ * Optimizer class for searching for a better layout than a single greedy packing gives.
+ * A layout is decoded from an order of the boxes and an orientation of every box by placing the boxes one by one.
+ * The search starts from the greedy layouts of several sort orders and improves them within an iteration or time budget.
+ */
+class Optimizer<T = unknown> {
+  private boxes: OptimizerBox<T>[] = [];
+  private options: PackerOptions = {};
+  private algorithm: PackAlgorithm = "maxrects";
+  private packer: BasePacker<T>;
+  private ids = new IdSequence();
+  private best: Candidate;
+  private random: () => number;
+  private iteration = 0;
+  private startTime = 0;
+
+  constructor(private containerWidth: number, private containerHeight: number, private search: SearchOptions = {}) {}
+
+  /**
+   * Set the parameters of the search.
+   * @param search - The search options.
+   * @remarks
+   * - objective: "fullness" maximizes the share of the container area covered by the boxes (default),
+   *   "placed" maximizes the number of placed boxes, "height" places as many boxes as possible at the smallest height,
+   *   "value" maximizes the total value of the placed boxes. Layouts placing more mandatory boxes always come first.
+   * - strategy: "local-search" mutates the best order and restarts from a random order when stuck (default),
+   *   "genetic" evolves a population of orders.
+   * - sortOrders: The sort orders of the greedy layouts the search starts from.
+   * - iterations, timeLimit: The budget in packings and in milliseconds, the search stops at the first one reached.
+   *   Without both, 200 packings are made.
+   * - seed: The seed of the random numbers (default is 1), the same seed and budget in packings give the same layout.
+   * - restartAfter: The number of packings without improvement before a restart of the local search.
+   * - populationSize: The number of orders kept by the genetic algorithm.
+   * - onProgress: Called after every packing with the number of packings, the elapsed time and the scores.
+   */
+  setSearch(search: SearchOptions) {
+    this.search = search;
+    this.packer = undefined;
+  }
+
+  /**
+   * Set the packing algorithm.
+   * @param algorithm - The packing algorithm.
+   */
+  setAlgorithm(algorithm: PackAlgorithm) {
+    this.algorithm = algorithm;
+    this.packer = undefined;
+  }
+
+  /**
+   * Applies packing options. Options that are not specified keep their current values.
+   * The sort order and the selection mode are chosen by the search.
+   *
+   * @param options - The packing options.
+   */
+  setOptions(options: PackerOptions) {
+    this.options = { ...this.options, ...options };
+    this.packer = undefined;
+  }
+
+  /**
+   * Resizes the container dimensions.
+   *
+   * @param width - The new width of the container.
+   * @param height - The new height of the container.
+   */
+  resizeContainer(width: number, height: number) {
+    this.containerWidth = width;
+    this.containerHeight = height;
+    this.packer = undefined;
+  }
+
+  /**
+   * Adds a box to the list of boxes.
+   *
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @param id - The identifier for the box (optional, default is the next unused identifier).
+   * @param options - Per-box options, e.g. a rotation policy, a quantity or a payload (optional).
+   * @returns The identifier of the box.
+   */
+  addBox(width: number, height: number, id?: number, options: BoxOptions<T> = {}) {
+    const boxId = this.ids.take(id);
+    for (const instance of instancesOf(options)) this.boxes.push({ width, height, id: boxId, options: instance });
+    this.packer = undefined;
+    return boxId;
+  }
+
+  /**
+   * Clears all boxes and the last layout.
+   */
+  clear() {
+    this.boxes.length = 0;
+    this.ids.reset();
+    this.packer = undefined;
+  }
+
+  /**
+   * Searches for the best layout within the budget and packs the boxes accordingly.
+   *
+   * @returns An array containing the packed boxes of the best layout.
+   * @throws MandatoryBoxError if a mandatory box is left out of the best layout and the check is enabled.
+   */
+  pack() {
+    this.random = createRandom(this.search.seed !== undefined ? this.search.seed : 1);
+    this.iteration = 0;
+    this.startTime = Date.now();
+    this.best = undefined;
+
+    // The greedy layouts, with the boxes in the order they were placed, are the starting points of the search
+    const starts = (this.search.sortOrders || DEFAULT_SORT_ORDERS).map(sortOrder => this.greedy(sortOrder));
+    if (this.canImprove()) {
+      if (this.search.strategy === "genetic") this.evolve(starts);
+      else this.improve();
+    }
+
+    this.packer = this.decode(this.best.solution, true);
+    if (this.options.mandatoryCheck !== false) {
+      const { unplaced, rejected } = this.packer.getResult();
+      assertMandatoryPlaced([...unplaced, ...rejected]);
+    }
+    return this.packer.pack();
+  }
+
+  /**
+   * Builds a structured report of the best layout, searching for it first if needed.
+   *
+   * @returns The placed, unplaced and rejected boxes, the fullness ratio, the score by the objective,
+   * the number of packings made and the elapsed time in milliseconds.
+   */
+  getResult(): OptimizedResult<T> {
+    if (!this.packer) this.pack();
+    return {
+      ...this.packer.getResult(),
+      score: this.best.score,
+      iterations: this.iteration,
+      elapsed: Date.now() - this.startTime
+    };
+  }
+
+  /**
+   * Packs the boxes greedily in the given sort order and evaluates the order in which they were placed.
+   *
+   * @param sortOrder - The sort order.
+   * @returns The evaluated candidate.
+   */
+  private greedy(sortOrder: SortOrder): Candidate {
+    const packer = createPacker<T>(this.algorithm, this.containerWidth, this.containerHeight);
+    packer.setOptions({ ...this.options, sortOrder, selection: "best-fit", mandatoryCheck: false });
+    this.boxes.forEach((box, index) => packer.addBox(box.width, box.height, index, box.options));
+
+    const placed = packer.pack().map(box => box.id);
+    const rest = this.boxes.map((box, index) => index).filter(index => placed.indexOf(index) === -1);
+    return this.evaluate({ order: [...placed, ...rest], rotations: this.boxes.map(() => "allowed") });
+  }
+
+  /**
+   * Improves the best solution by random mutations, accepting every mutation that is not worse.
+   * After too many packings without improvement, the search restarts from a random order.
+   */
+  private improve() {
+    const restartAfter = this.search.restartAfter || DEFAULT_RESTART_AFTER;
+    let current = this.best;
+    let stale = 0;
+
+    while (!this.isOver()) {
+      const next = this.evaluate(this.mutate(current.solution));
+      if (compare(next, current) > 0) stale = 0;
+      else stale++;
+      if (compare(next, current) >= 0) current = next;
+
+      if (stale >= restartAfter) {
+        current = this.evaluate({ order: this.shuffle(current.solution.order), rotations: current.solution.rotations });
+        stale = 0;
+      }
+    }
+  }
+
+  /**
+   * Evolves a population of solutions: two parents chosen by tournaments are crossed and mutated,
+   * the child replaces the worst member of the population if it is better.
+   *
+   * @param starts - The evaluated greedy solutions, the first members of the population.
+   */
+  private evolve(starts: Candidate[]) {
+    const size = Math.max(2, this.search.populationSize || DEFAULT_POPULATION_SIZE);
+    const population = starts.slice(0, size);
+    while (population.length < size && !this.isOver()) {
+      population.push(this.evaluate(this.mutate(population[population.length % starts.length].solution)));
+    }
+
+    while (!this.isOver()) {
+      const child = this.evaluate(this.mutate(this.crossover(this.tournament(population), this.tournament(population))));
+      let worst = 0;
+      for (let i = 1; i < population.length; i++) if (compare(population[i], population[worst]) < 0) worst = i;
+      if (compare(child, population[worst]) > 0) population[worst] = child;
+    }
+  }
+
+  /**
+   * Chooses the better of two random members of the population.
+   *
+   * @param population - The population.
+   * @returns The solution of the chosen member.
+   */
+  private tournament(population: Candidate[]) {
+    const a = population[Math.floor(this.random() * population.length)];
+    const b = population[Math.floor(this.random() * population.length)];
+    return compare(a, b) >= 0 ? a.solution : b.solution;
+  }
+
+  /**
+   * Crosses two solutions with the order crossover: a random slice of the first order is kept in place,
+   * the other boxes follow in the order of the second one. Every orientation is taken from a random parent.
+   *
+   * @param a - The first parent.
+   * @param b - The second parent.
+   * @returns The child solution.
+   */
+  private crossover(a: Solution, b: Solution): Solution {
+    const length = a.order.length;
+    const start = Math.floor(this.random() * length);
+    const end = start + Math.floor(this.random() * (length - start + 1));
+    const kept = new Set(a.order.slice(start, end));
+    const rest = b.order.filter(index => !kept.has(index));
+
+    return {
+      order: [...rest.slice(0, start), ...a.order.slice(start, end), ...rest.slice(start)],
+      rotations: a.rotations.map((rotation, index) => (this.random() < 0.5 ? rotation : b.rotations[index]))
+    };
+  }
+
+  /**
+   * Makes a random change of a solution: swaps two boxes, moves a box to another place in the order,
+   * or changes the orientation of a box that may be rotated.
+   *
+   * @param solution - The solution to be changed.
+   * @returns A new solution.
+   */
+  private mutate(solution: Solution): Solution {
+    const order = solution.order.slice();
+    const rotations = solution.rotations.slice();
+    const rotatable = this.rotatableBoxes();
+    const kind = Math.floor(this.random() * (rotatable.length ? 3 : 2));
+    const i = Math.floor(this.random() * order.length);
+    const j = Math.floor(this.random() * order.length);
+
+    if (kind === 0) {
+      [order[i], order[j]] = [order[j], order[i]];
+    } else if (kind === 1) {
+      order.splice(j, 0, ...order.splice(i, 1));
+    } else {
+      const index = rotatable[Math.floor(this.random() * rotatable.length)];
+      rotations[index] = ROTATION_CYCLE[(ROTATION_CYCLE.indexOf(rotations[index]) + 1) % ROTATION_CYCLE.length];
+    }
+    return { order, rotations };
+  }
+
+  /**
+   * Shuffles an order with the Fisher-Yates algorithm.
+   *
+   * @param order - The order to be shuffled.
+   * @returns A new order.
+   */
+  private shuffle(order: number[]) {
+    const result = order.slice();
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  /**
+   * Packs the boxes according to a solution, scores the layout and remembers it if it is the best so far.
+   *
+   * @param solution - The solution to be evaluated.
+   * @returns The evaluated candidate.
+   */
+  private evaluate(solution: Solution): Candidate {
+    const result = this.decode(solution).getResult();
+    const missing = [...result.unplaced, ...result.rejected].filter(box => box.mandatory).length;
+    const candidate = { solution, score: this.score(result), missing };
+    this.iteration++;
+    if (!this.best || compare(candidate, this.best) > 0) this.best = candidate;
+
+    if (this.search.onProgress) {
+      const elapsed = Date.now() - this.startTime;
+      this.search.onProgress({ iteration: this.iteration, elapsed, score: candidate.score, bestScore: this.best.score });
+    }
+    return candidate;
+  }
+
+  /**
+   * Packs the boxes one by one in the order of a solution, in the orientations it chooses.
+   *
+   * @param solution - The solution to be decoded.
+   * @param keepIds - Whether the boxes keep their identifiers, otherwise they are identified by their index.
+   * @returns The packer holding the layout.
+   */
+  private decode(solution: Solution, keepIds = false) {
+    const packer = createPacker<T>(this.algorithm, this.containerWidth, this.containerHeight);
+    packer.setOptions({ ...this.options, sortOrder: "none", selection: "sequential", mandatoryCheck: false });
+    for (const index of solution.order) {
+      const box = this.boxes[index];
+      const rotation = solution.rotations[index] === "allowed" ? box.options.rotation : solution.rotations[index];
+      packer.addBox(box.width, box.height, keepIds ? box.id : index, { ...box.options, rotation });
+    }
+    packer.pack();
+    return packer;
+  }
+
+  /**
+   * Scores a layout by the objective, higher is better.
+   *
+   * @param result - The result of the layout.
+   * @returns The score.
+   */
+  private score(result: PackResult<T>) {
+    const placed = result.placed;
+    const boxSquare = placed.reduce((sum, box) => sum + box.width * box.height, 0);
+
+    switch (this.search.objective) {
+      case "placed":
+        return placed.length + boxSquare / (this.containerWidth * this.containerHeight + 1);
+      case "height":
+        return placed.length - placed.reduce((max, box) => Math.max(max, box.bottom), 0) / (this.containerHeight + 1);
+      case "value":
+        return result.value;
+      default:
+        return boxSquare / (this.containerWidth * this.containerHeight);
+    }
+  }
+
+  /**
+   * Lists the boxes whose orientation is chosen by the search.
+   *
+   * @returns The indices of the boxes that may be rotated.
+   */
+  private rotatableBoxes() {
+    const indices: number[] = [];
+    this.boxes.forEach((box, index) => {
+      if ((box.options.rotation || this.options.rotation || "allowed") === "allowed") indices.push(index);
+    });
+    return indices;
+  }
+
+  /**
+   * Checks whether a solution can be changed at all.
+   *
+   * @returns True if there are two boxes to reorder or a box to rotate.
+   */
+  private canImprove() {
+    return this.boxes.length > 1 || this.rotatableBoxes().length > 0;
+  }
+
+  /**
+   * Checks whether the budget of the search is spent.
+   *
+   * @returns True if the number of packings or the elapsed time reached its limit.
+   */
+  private isOver() {
+    const { iterations, timeLimit } = this.search;
+    const limit = iterations || (timeLimit ? Infinity : DEFAULT_ITERATIONS);
+    return this.iteration >= limit || (timeLimit !== undefined && Date.now() - this.startTime >= timeLimit);
+  }
+}
+
+/**
+ * Compares two candidates: the one leaving out fewer mandatory boxes is better, then the one with the higher score.
+ *
+ * @returns A positive number if the first candidate is better, a negative number if it is worse, 0 for a tie.
+ */
+function compare(a: Candidate, b: Candidate) {
+  return b.missing - a.missing || a.score - b.score;
+}
+
+export default Optimizer;
@@ -0,0 +1,125 @@
+import { AbortError } from "./errors";
+import { AsyncPackOptions, PackJob, PackResult, PackTrace, WorkerRequest, WorkerResponse } from "./types";
+
+type ResultResponse<T> = Extract<WorkerResponse<T>, { type: "result" }>;
+
+type PendingJob<T> = {
+  resolve: (response: ResultResponse<T>) => void;
+  reject: (error: Error) => void;
+  options: AsyncPackOptions;
+  onAbort: () => void;
+};
+
+/**
+ * PackWorkerClient class for running packing jobs in a worker, a browser Web Worker or a Node.js worker thread.
+ * The client only sends and receives messages, the caller connects it to the worker:
+ *
+ * ```
+ * const worker = new Worker("worker.js");
+ * const client = new PackWorkerClient(message => worker.postMessage(message));
+ * worker.onmessage = event => client.receive(event.data);
+ * ```
+ *
+ * With worker_threads the messages arrive as `worker.on("message", message => client.receive(message))`.
+ */
+class PackWorkerClient<T = unknown> {
+  private jobs = new Map<number, PendingJob<T>>();
+  private nextId = 0;
+
+  constructor(private post: (message: WorkerRequest<T>) => void) {}
+
+  /**
+   * Sends a packing job to the worker.
+   *
+   * @param job - The container size, the algorithm, the packing options and the boxes.
+   * The payloads of the boxes must be cloneable, the heuristic and the sort order must be given by name.
+   * @param options - The abort signal, the progress callback and the length of a slice in milliseconds (optional).
+   * @returns A promise of the result.
+   * @throws AbortError if the signal is aborted, the job is cancelled in the worker then.
+   * @throws Errors of the worker, e.g. MandatoryBoxError, as errors of the same name and message.
+   */
+  pack(job: PackJob<T>, options: AsyncPackOptions = {}): Promise<PackResult<T>> {
+    return this.send(job, options, false).then(response => response.result);
+  }
+
+  /**
+   * Sends a packing job to the worker to be packed with tracing, see `BasePacker.setTracing`.
+   *
+   * @param job - The container size, the algorithm, the packing options and the boxes, as for `pack`.
+   * @param options - The abort signal, the progress callback and the length of a slice in milliseconds (optional).
+   * @returns A promise of the trace of the packing.
+   * @throws AbortError if the signal is aborted, the job is cancelled in the worker then.
+   * @throws Errors of the worker, e.g. MandatoryBoxError, as errors of the same name and message.
+   */
+  trace(job: PackJob<T>, options: AsyncPackOptions = {}): Promise<PackTrace> {
+    return this.send(job, options, true).then(response => response.trace);
+  }
+
+  /**
+   * Posts a packing job to the worker and waits for its result.
+   *
+   * @param job - The packing job.
+   * @param options - The abort signal, the progress callback and the length of a slice.
+   * @param trace - Whether the worker traces the packing.
+   * @returns A promise of the "result" message of the job.
+   */
+  private send(job: PackJob<T>, options: AsyncPackOptions, trace: boolean): Promise<ResultResponse<T>> {
+    const { signal, sliceTime } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) {
+        reject(new AbortError());
+        return;
+      }
+
+      const id = this.nextId++;
+      const onAbort = () => {
+        this.settle(id);
+        this.post({ type: "abort", id });
+        reject(new AbortError());
+      };
+      this.jobs.set(id, { resolve, reject, options, onAbort });
+      if (signal) signal.addEventListener("abort", onAbort);
+      this.post({ type: "pack", id, job, sliceTime, trace });
+    });
+  }
+
+  /**
+   * Handles a message of the worker.
+   *
+   * @param message - The message posted by the worker.
+   */
+  receive(message: WorkerResponse<T>) {
+    const job = this.jobs.get(message.id);
+    if (!job) return;
+
+    switch (message.type) {
+      case "progress":
+        if (job.options.onProgress) job.options.onProgress(message.progress);
+        break;
+      case "result":
+        this.settle(message.id);
+        job.resolve(message);
+        break;
+      default: {
+        this.settle(message.id);
+        const error = message.name === "AbortError" ? new AbortError(message.message) : new Error(message.message);
+        error.name = message.name;
+        job.reject(error);
+      }
+    }
+  }
+
+  /**
+   * Forgets a job that has ended.
+   *
+   * @param id - The identifier of the job.
+   */
+  private settle(id: number) {
+    const { options, onAbort } = this.jobs.get(id);
+    if (options.signal) options.signal.removeEventListener("abort", onAbort);
+    this.jobs.delete(id);
+  }
+}
+
+export default PackWorkerClient;
@@ -1,265 +1,334 @@
+import BasePacker from "./BasePacker";
 import { Box } from "./Box";
-import { PackDirection } from "./types";
+import { freeSpaceFullness } from "./fullness";
+import { resolveScorer } from "./heuristics";
+import { isOrientationAllowed } from "./rotation";
+import SpatialIndex from "./SpatialIndex";
 
-const BOTTOM_RIGHT_MARK = Number.MAX_SAFE_INTEGER;
+type Candidate = { freeBox: Box; order: number; turned: boolean; score: number };
+type CachedPositions = { candidates: Candidate[]; cutoff: Candidate | undefined; version: number; scored: number };
+type FreeSpaceChange = { area: Box; added: Box[]; nearby?: Box[] };
+
+const CACHED_POSITIONS = 8;
 
 /**
  * Packer class for efficiently packing boxes into a container.
+ * The free space is kept as a list of maximal free rectangles that may overlap each other.
+ * The free boxes are kept in a spatial index, and the best positions of every size of box are cached
+ * and only rechecked against the part of the free space that changed since.
  */
-class Packer {
-  private boxes: Box[] = [];
-  private packedBoxes: Box[] = [];
+class Packer<T = unknown> extends BasePacker<T> {
   private freeBoxes: Box[] = [];
-  private badBoxes: Box[] = [];
-  private notPlacedBoxes: Box[] = [];
-  private isPrepared = false;
-  private _fullness = -1;
+  private freeIndex: SpatialIndex;
+  private positions = new Map<string, CachedPositions>();
+  private changes: FreeSpaceChange[] = [];
+  private reach = 0;
 
-  constructor(private containerWidth: number, private containerHeight: number, private direction: PackDirection = "none") {}
+  /**
+   * Resets the state of the packing algorithm, clearing various lists and resetting variables.
+   */
+  protected reset() {
+    super.reset();
+    this.freeBoxes.length = 0;
+    this.positions.clear();
+    this.changes.length = 0;
+  }
 
   /**
-   * Set the packing direction for the Packer.
-   * @param direction - The packing direction.
-   * @remarks
-   * This method sets the packing direction for the Packer. The direction parameter
-   * specifies how the boxes should be arranged during the packing process.
-   * - "none": No specific direction, let the algorithm choose the optimal direction.
-   * - "left": Pack boxes aligning them from left to right.
-   * - "top": Pack boxes aligning them from top to bottom.
+   * Adds an initial free box covering the whole packing area.
    */
-  setDirection(direction: PackDirection) {
-    this.direction = direction;
-    this.isPrepared = false;
+  protected initContainer() {
+    this.freeIndex = new SpatialIndex(this.innerWidth, this.innerHeight, this.cellSize());
+    this.reach = this.queue.reduce((max, box) => Math.max(max, box.height + this.spacing), 0);
+    this.addFreeBox(0, 0, this.innerWidth, this.innerHeight);
   }
 
   /**
-   * Resizes the container dimensions for the Packer instance.
+   * Finds the best position for a given box within the available free boxes.
+   * Boxes of the same size and rotation policy share a cached list of their best positions, which is updated
+   * from the changes of the free space made since it was built. A custom scorer may depend on anything,
+   * so its positions are not cached, neither are the positions of a box inserted later and longer than the others.
+   * A traced packing scores all positions to record them.
    *
-   * @param width - The new width of the container.
-   * @param height - The new height of the container.
+   * @param box - The box to be positioned.
+   * @param testBox - The test box to store the final coordinates and score.
    */
-  resizeContainer(width: number, height: number) {
-    this.containerWidth = width;
-    this.containerHeight = height;
-    this.isPrepared = false;
+  protected findBoxPosition(box: Box, testBox: Box) {
+    if (this.tracing || typeof this.heuristic === "function" || box.height + this.spacing > this.reach) {
+      this.findInFreeBoxes(this.freeBoxes, box, testBox);
+      return;
+    }
+
+    const key = `${box.width}x${box.height}:${box.rotated}:${this.rotationOf(box)}`;
+    let positions = this.positions.get(key);
+    if (positions && positions.version < this.changes.length) this.updatePositions(positions, box);
+    if (!positions || !this.isReliable(positions)) {
+      positions = this.searchPositions(box);
+      this.positions.set(key, positions);
+    }
+
+    const [best] = positions.candidates;
+    testBox.mark = best ? best.score : -Infinity;
+    testBox.id = box.id;
+    if (!best) return;
+
+    const { left, top } = best.freeBox;
+    const width = box.width + this.spacing;
+    const height = box.height + this.spacing;
+    if (best.turned) testBox.setCoord(left, top, left + height, top + width);
+    else testBox.setCoord(left, top, left + width, top + height);
+    testBox.rotated = best.turned !== box.rotated;
   }
 
   /**
-   * Clears all data, resetting the state of the packing algorithm.
+   * Scores every position of a box in the free boxes and keeps the best ones.
+   *
+   * @param box - The box to be positioned.
+   * @returns The cached positions.
    */
-  clear() {
-    this.boxes.length = 0;
-    this.reset();
+  private searchPositions(box: Box): CachedPositions {
+    const positions: CachedPositions = {
+      candidates: [],
+      cutoff: undefined,
+      version: this.changes.length,
+      scored: this.freeIndex.nextOrder
+    };
+    this.forEachPosition(this.freeBoxes, box, candidate => this.keepCandidate(positions, candidate));
+    return positions;
   }
 
   /**
-   * Resets the state of the packing algorithm, clearing various lists and resetting variables.
-   * This method is called internally during the preparation phase.
+   * Updates cached positions from the changes of the free space. The positions in the removed free boxes are dropped.
+   * The free boxes added since are scored, and for the contact-point heuristic so are the older positions touching
+   * the newly packed boxes: the scores of the other built-in heuristics depend on the free box alone,
+   * and a contact score only changes when something is packed next to the position.
+   *
+   * @param positions - The cached positions.
+   * @param box - A box of the cached size.
    */
-  private reset() {
-    this.packedBoxes.length = 0;
-    this.freeBoxes.length = 0;
-    this.badBoxes.length = 0;
-    this.notPlacedBoxes.length = 0;
-    this._fullness = -1;
-    this.isPrepared = false;
+  private updatePositions(positions: CachedPositions, box: Box) {
+    const keep = (candidate: Candidate) => this.keepCandidate(positions, candidate);
+    positions.candidates = positions.candidates.filter(candidate => !candidate.freeBox.needRemove);
+
+    for (let i = positions.version; i < this.changes.length; i++) {
+      const change = this.changes[i];
+      this.forEachPosition(change.added.filter(freeBox => !freeBox.needRemove), box, keep);
+      if (this.heuristic !== "contact-point") continue;
+
+      // The free boxes added after the last update are scored above with all packed boxes in place
+      if (!change.nearby) change.nearby = this.findNearbyFreeBoxes(change.area);
+      const older = change.nearby.filter(freeBox => !freeBox.needRemove && this.freeIndex.orderOf(freeBox) < positions.scored);
+      this.forEachPosition(older, box, keep, change.area);
+    }
+    positions.version = this.changes.length;
+    positions.scored = this.freeIndex.nextOrder;
   }
 
   /**
-   * Adds a box to the list of boxes, automatically rotating it if the width is greater than the height.
+   * Finds the free boxes whose top-left corner is close enough to an area for a box placed there to touch it.
    *
-   * @param width - The width of the box.
-   * @param height - The height of the box.
-   * @param id - The identifier for the box (optional, default is 0).
+   * @param area - The area, e.g. a packed box.
+   * @returns The free boxes in the order they were added.
    */
-  addBox(width: number, height: number, id: number = 0) {
-    const box = Box.createFromSize(Math.min(width, height), Math.max(width, height), id);
-    this.boxes.push(box);
-    this.isPrepared = false;
+  private findNearbyFreeBoxes(area: Box) {
+    const left = area.left - this.reach;
+    const top = area.top - this.reach;
+    return this.freeIndex.search(left, top, area.right, area.bottom).filter(box => box.left >= left && box.top >= top);
   }
 
   /**
-   * Prepares the algorithm for packing by filtering out bad boxes, sorting them, and adding an initial free box.
-   * This method should be called before packing the boxes.
+   * Checks whether the best cached position is the best position in the whole free space.
+   * Every position left out of the list is not better than the cutoff, so the list can be trusted
+   * while its best position is better than the cutoff.
+   *
+   * @param positions - The cached positions.
+   * @returns True if the best cached position can be used without a full search.
    */
-  prepare() {
-    this.reset();
-    this.boxes = this.filterBadBoxes(this.boxes);
-    this.boxes.sort((a, b) => (a.width === b.width ? b.height - a.height : b.width - a.width));
-    this.addFreeBox(0, 0, this.containerWidth, this.containerHeight);
-    this.isPrepared = true;
+  private isReliable(positions: CachedPositions) {
+    const [best] = positions.candidates;
+    if (!positions.cutoff) return true;
+    return best !== undefined && isBetterCandidate(best, positions.cutoff);
   }
 
   /**
-   * Filters out oversized and undersized boxes, adding them to the list of bad boxes.
+   * Inserts a candidate into the sorted list of cached positions, replacing the earlier score of the same position.
+   * The candidate falling off the end of the list moves the cutoff.
    *
-   * @param boxes - An array of boxes to be filtered.
-   * @returns An array of filtered boxes that meet the size criteria.
+   * @param positions - The cached positions.
+   * @param candidate - The scored position.
    */
-  private filterBadBoxes(boxes: Box[]) {
-    return boxes.filter(box => {
-      if (
-        (box.width > this.containerWidth && box.width > this.containerHeight) ||
-        (box.height > this.containerWidth && box.height > this.containerHeight) ||
-        (box.width <= 0 || box.height <= 0)
-      ) {
-        this.badBoxes.push(box);
-        return false;
-      }
-      return true;
-    });
+  private keepCandidate(positions: CachedPositions, candidate: Candidate) {
+    const { candidates } = positions;
+    const previous = candidates.findIndex(item => item.freeBox === candidate.freeBox && item.turned === candidate.turned);
+    if (previous !== -1) candidates.splice(previous, 1);
+
+    let index = candidates.length;
+    while (index > 0 && isBetterCandidate(candidate, candidates[index - 1])) index--;
+    candidates.splice(index, 0, candidate);
+
+    if (candidates.length > CACHED_POSITIONS) {
+      const dropped = candidates.pop();
+      if (!positions.cutoff || isBetterCandidate(dropped, positions.cutoff)) positions.cutoff = dropped;
+    }
   }
 
   /**
-   * Packs the available boxes into containers using a specific algorithm.
-   * The method first prepares the data if not already prepared.
-   * It then iterates through the boxes, finding the best position for each,
-   * and adds the packed boxes to the list of packedBoxes.
-   * Finally, it collects the boxes that couldn't be placed into notPlacedBoxes.
+   * Scores the positions of a box at the top-left corners of the given free boxes in both allowed orientations.
    *
-   * @returns An array containing the packed boxes.
+   * @param freeBoxes - The free boxes to be checked.
+   * @param box - The box to be positioned.
+   * @param callback - The function receiving every scored position.
+   * @param area - An area the positions must touch to be scored (optional).
    */
-  pack(): Box[] {
-    // Prepare data if not already prepared
-    if (!this.isPrepared) this.prepare();
-
-    const boxes = this.boxes;
-    const packedBoxes = this.packedBoxes;
-    const testBox = new Box();
-
-    // Iterate through the remaining unpacked boxes
-    while (boxes.length !== packedBoxes.length) {
-      let bestScore = 0;
-      let bestBoxIndex = -1;
-      let bestBox: Box;
-
-      // Find the best position for each box
-      for (let i = 0, total = boxes.length; i < total; i++) {
-        if (boxes[i].needRemove) continue;
-        this.findBoxPosition(boxes[i], testBox);
-        if (testBox.mark > bestScore) {
-          bestScore = testBox.mark;
-          bestBox = testBox.clone();
-          bestBoxIndex = i;
-        }
+  private forEachPosition(freeBoxes: Box[], box: Box, callback: (candidate: Candidate) => void, area?: Box) {
+    const scorer = resolveScorer(this.heuristic);
+    const rotation = this.rotationOf(box);
+    const canKeep = isOrientationAllowed(rotation, box.rotated);
+    const canTurn = isOrientationAllowed(rotation, !box.rotated);
+    const width = box.width + this.spacing;
+    const height = box.height + this.spacing;
+
+    const touches = (left: number, top: number, right: number, bottom: number) =>
+      !area || (left <= area.right && right >= area.left && top <= area.bottom && bottom >= area.top);
+
+    for (const freeBox of freeBoxes) {
+      const order = this.freeIndex.orderOf(freeBox);
+      const { left, top } = freeBox;
+      if (canKeep && freeBox.width >= width && freeBox.height >= height && touches(left, top, left + width, top + height)) {
+        const score = scorer(left, top, left + width, top + height, freeBox, this.context);
+        callback({ freeBox, order, turned: false, score });
       }
-
-      // Check if a valid position was found
-      if (bestBoxIndex === -1 || !bestBox) {
-        break;
-      }
-
-      // Add the bestBox to the list of packed boxes and mark the original box as removed
-      this.addPackedBox(bestBox);
-      boxes[bestBoxIndex].needRemove = true;
-    }
-
-    // Collect the boxes that couldn't be placed into notPlacedBoxes
-    for (const box of boxes) {
-      if (!box.needRemove) {
-        this.notPlacedBoxes.push(box);
+      if (canTurn && freeBox.width >= height && freeBox.height >= width && touches(left, top, left + height, top + width)) {
+        const score = scorer(left, top, left + height, top + width, freeBox, this.context);
+        callback({ freeBox, order, turned: true, score });
       }
-      box.needRemove = false;
     }
+  }
 
-    return this.packedBoxes;
+  /**
+   * Adds a packed box to the list of packed boxes, updating the list of free boxes by splitting and removing intersecting boxes.
+   *
+   * @param box - The box to be added to the list of packed boxes.
+   */
+  protected addPackedBox(box: Box) {
+    this.reserveBox(box);
+    this.packedBoxes.push(box);
   }
 
   /**
-   * Finds the best position for a given box within the available free boxes.
+   * Removes an area from the free space by splitting the intersecting free boxes and removing the contained ones.
    *
-   * @param box - The box to be positioned.
-   * @param testBox - The test box to store the final coordinates and score.
+   * @param box - The area to be removed.
    */
-  private findBoxPosition(box: Box, testBox: Box) {
-    let bestScore = -1;
-    testBox.mark = 0;
-
-    for (const freeBox of this.freeBoxes) {
-      // Check if the box can fit horizontally
-      if (freeBox.width >= box.width && freeBox.height >= box.height) {
-        let score = this.calculateScore(freeBox.left, freeBox.top, freeBox.left + box.width, freeBox.top + box.height);
-        if (score > bestScore) {
-          testBox.setCoord(freeBox.left, freeBox.top, freeBox.left + box.width, freeBox.top + box.height);
-          bestScore = score;
-        }
-      }
-      // Check if the box can fit vertically
-      if (freeBox.width >= box.height && freeBox.height >= box.width) {
-        let score = this.calculateScore(freeBox.left, freeBox.top, freeBox.left + box.height, freeBox.top + box.width);
-        if (score > bestScore) {
-          testBox.setCoord(freeBox.left, freeBox.top, freeBox.left + box.height, freeBox.top + box.width);
-          bestScore = score;
-        }
+  protected reserveBox(box: Box) {
+    const first = this.freeBoxes.length;
+
+    // Split and mark intersecting free boxes
+    for (const freeBox of this.freeIndex.search(box.left, box.top, box.right, box.bottom)) {
+      if (Box.isSeparated(freeBox, box)) {
+        this.splitFreeBox(freeBox, box);
+        freeBox.needRemove = true;
       }
     }
-    testBox.mark = bestScore;
-    testBox.id = box.id;
+
+    const added = this.freeBoxes.slice(first);
+    this.removeContainedFreeBoxes(first);
+    this.changes.push({ area: box, added });
   }
 
   /**
-   * Calculates a score based on the specified coordinates, considering the placement of existing packed boxes.
-   * The score is determined by the length of common intervals with existing boxes.
+   * Removes the first box placed by packing with the given identifier from the current layout without repacking.
+   * Fixed boxes are not removed.
+   * The area of the box is returned to the free space, and the free boxes around it are grown into it,
+   * so the next inserted box can use the area together with its surroundings.
    *
-   * @param left - The left coordinate of the box.
-   * @param top - The top coordinate of the box.
-   * @param right - The right coordinate of the box.
-   * @param bottom - The bottom coordinate of the box.
-   * @returns The calculated score.
+   * @param id - The identifier of the box.
+   * @param instance - The instance index of the box (optional, any instance by default).
+   * @returns True if a placed box was removed, false if no placed box has the identifier.
    */
-  private calculateScore(left: number, top: number, right: number, bottom: number) {
-    let score = 0;
-
-    if (left === 0 || right === this.containerWidth) score += bottom - top;
-    if (top === 0 || bottom === this.containerHeight) score += right - left;
-
-    for (const box of this.packedBoxes) {
-      if (box.left === right || box.right === left) score += this.commonIntervalLength(box.top, box.bottom, top, bottom);
-      if (box.top === bottom || box.bottom === top) score += this.commonIntervalLength(box.left, box.right, left, right);
+  removeBox(id: number, instance?: number) {
+    this.packIfNeeded();
+
+    const matches = (box: Box) => box.id === id && (instance === undefined || box.instance === instance);
+    const index = this.packedBoxes.findIndex(matches);
+    if (index === -1) return false;
+
+    const [box] = this.packedBoxes.splice(index, 1);
+    this.nearIndex.remove(box);
+    this.placedBoxes.splice(this.fixedBoxes.length + index, 1);
+    const inputIndex = this.boxes.findIndex(inputBox => inputBox.id === id && inputBox.instance === box.instance);
+    if (inputIndex !== -1) this.boxes.splice(inputIndex, 1);
+
+    // Grow the released area and the free boxes touching it as far as the packed boxes allow
+    const first = this.freeBoxes.length;
+    const grown: Box[] = [];
+    for (const freeBox of [box, ...this.freeIndex.search(box.left, box.top, box.right, box.bottom)]) {
+      grown.push(this.growFreeBox(freeBox, false), this.growFreeBox(freeBox, true));
     }
+    for (const freeBox of grown) this.pushFreeBox(freeBox);
+    this.removeContainedFreeBoxes(first, true);
 
-    if (this.direction === "top") score += top;
-    if (this.direction === "left") score += left;
-    return score;
+    // Contact scores drop when a box is removed, so the cached positions are no longer reliable
+    this.positions.clear();
+    this._fullness = -1;
+    return true;
   }
 
   /**
-   * Calculates the length of the common interval between two ranges.
+   * Grows a free rectangle in both directions of one axis until it meets the packed boxes or the walls,
+   * then does the same along the other axis.
    *
-   * @param startA - The start coordinate of the first range.
-   * @param endA - The end coordinate of the first range.
-   * @param startB - The start coordinate of the second range.
-   * @param endB - The end coordinate of the second range.
-   * @returns The length of the common interval or 0 if there is no overlap.
+   * @param freeBox - The free rectangle to be grown, it must not overlap the packed boxes.
+   * @param verticalFirst - Whether the rectangle is grown vertically first.
+   * @returns A new free box.
    */
-  private commonIntervalLength(startA: number, endA: number, startB: number, endB: number): number {
-    return endA < startB || endB < startA ? 0 : Math.min(endA, endB) - Math.max(startA, startB);
+  private growFreeBox(freeBox: Box, verticalFirst: boolean) {
+    let { left, top, right, bottom } = freeBox;
+    const packedBoxes = [...this.packedBoxes, ...this.reservedBoxes];
+
+    const growX = () => {
+      const across = packedBoxes.filter(box => box.top < bottom && box.bottom > top);
+      left = across.reduce((edge, box) => (box.right <= left ? Math.max(edge, box.right) : edge), 0);
+      right = across.reduce((edge, box) => (box.left >= right ? Math.min(edge, box.left) : edge), this.innerWidth);
+    };
+    const growY = () => {
+      const across = packedBoxes.filter(box => box.left < right && box.right > left);
+      top = across.reduce((edge, box) => (box.bottom <= top ? Math.max(edge, box.bottom) : edge), 0);
+      bottom = across.reduce((edge, box) => (box.top >= bottom ? Math.min(edge, box.top) : edge), this.innerHeight);
+    };
+
+    if (verticalFirst) {
+      growY();
+      growX();
+    } else {
+      growX();
+      growY();
+    }
+    return Box.createFromCoord(left, top, right, bottom);
   }
 
   /**
-   * Adds a packed box to the list of packed boxes, updating the list of free boxes by splitting and removing intersecting boxes.
+   * Removes the marked free boxes and the free boxes that lie within other free boxes.
+   * Only the free boxes added from the given position on are checked, the older free boxes were checked
+   * when they were added. A free box can only lie within the free boxes covering its top-left corner,
+   * and a split leaves pieces of a free box that cannot hold an older one, unlike the free boxes grown after a removal.
    *
-   * @param box - The box to be added to the list of packed boxes.
+   * @param first - The position of the first added free box in the list.
+   * @param grown - Whether the added free boxes may hold older ones (optional, default is false).
    */
-  private addPackedBox(box: Box) {
+  private removeContainedFreeBoxes(first: number, grown = false) {
     const freeBoxes = this.freeBoxes;
 
-    // Split and mark intersecting free boxes
-    for (const freeBox of this.freeBoxes) {
-      if (Box.isSeparated(freeBox, box)) {
-        this.splitFreeBox(freeBox, box);
-        freeBox.needRemove = true;
-      }
-    }
-
-    // Mark fully contained free boxes
-    for (let i = 0; i < freeBoxes.length - 1; i++) {
+    // Mark fully contained free boxes, of two equal boxes the earlier one is marked
+    for (let i = first; i < freeBoxes.length; i++) {
       const box1 = freeBoxes[i];
       if (box1.needRemove) continue;
-      for (let j = i + 1; j < freeBoxes.length; j++) {
-        const box2 = freeBoxes[j];
-        if (box2.needRemove) continue;
-        if (Box.isContained(box1, box2)) {
+      const right = grown ? box1.right : box1.left;
+      const bottom = grown ? box1.bottom : box1.top;
+      for (const box2 of this.freeIndex.search(box1.left, box1.top, right, bottom)) {
+        if (box2 === box1 || box2.needRemove) continue;
+        const isEarlier = this.freeIndex.orderOf(box2) < this.freeIndex.orderOf(box1);
+        if (Box.isContained(box1, box2) && !(isEarlier && Box.isContained(box2, box1))) {
           box1.needRemove = true;
           break;
         }
@@ -269,10 +338,13 @@ class Packer {
       }
     }
 
-    // Remove marked free boxes and add the packed box
-    this.freeBoxes = this.freeBoxes.filter(box => !box.needRemove);
-    this.packedBoxes.push(box);
+    // Remove marked free boxes
+    this.freeBoxes = freeBoxes.filter(box => {
+      if (box.needRemove) this.freeIndex.remove(box);
+      return !box.needRemove;
+    });
   }
+
   /**
    * Splits the given free box based on the dimensions of the box.
    * Adds new free boxes created from the non-overlapping regions.
@@ -304,64 +376,50 @@ class Packer {
    * @param bottom - The bottom coordinate of the new free box.
    */
   private addFreeBox(left: number, top: number, right: number, bottom: number): void {
-    const box = Box.createFromCoord(left, top, right, bottom);
-    this.freeBoxes.push(box);
+    this.pushFreeBox(Box.createFromCoord(left, top, right, bottom));
   }
 
   /**
-   * Calculates the fullness ratio of the container based on the free and packed boxes.
-   * The fullness ratio represents the occupied space in the container.
+   * Adds a free box to the list of free boxes and to the spatial index.
    *
-   * @returns The fullness ratio, ranging from 0 to 1, where 0 means empty and 1 means fully occupied.
+   * @param box - The free box.
    */
-  private calculateFullness() {
-    const freeBoxes = this.freeBoxes;
-    let nextMark = 1;
-
-    // Mark bottom-right corner of full-size free boxes
-    for (const box of freeBoxes) {
-      if (box.right === this.containerWidth && box.bottom === this.containerHeight) box.mark = BOTTOM_RIGHT_MARK;
-      else box.mark = 0;
-    }
-
-    // Mark touched free boxes with the same mark
-    for (let i = 0; i < freeBoxes.length - 1; i++) {
-      const box1 = freeBoxes[i];
-      for (let j = i + 1; j < freeBoxes.length; j++) {
-        const box2 = freeBoxes[j];
-        if (Box.isTouched(box1, box2)) {
-          let mark = Math.max(box1.mark, box2.mark);
-          if (mark === 0) mark = nextMark++;
-          box2.mark = box1.mark = mark;
-        }
-      }
-    }
-
-    const innerSquare = freeBoxes.reduce((accum, box) => (box.mark !== BOTTOM_RIGHT_MARK ? accum + box.square() : accum), 0);
-    const boxSquare = this.packedBoxes.reduce((accum, box) => accum + box.square(), 0);
-
-    // Calculate the fullness ratio
-    this._fullness = 1 - innerSquare / (boxSquare + innerSquare);
+  private pushFreeBox(box: Box) {
+    this.freeBoxes.push(box);
+    this.freeIndex.insert(box);
   }
 
   /**
-   * Retrieves the fullness ratio of the container. If the fullness has not been calculated yet,
-   * it calculates it using the `calculateFullness` method and returns the result.
+   * Lists the maximal free rectangles.
    *
-   * @returns The fullness ratio, ranging from 0 to 1, where 0 means empty and 1 means fully occupied.
+   * @returns The free boxes.
    */
-  get fullness() {
-    if (this._fullness === -1) this.calculateFullness();
-    return this._fullness;
+  protected freeSpace() {
+    return this.freeBoxes;
   }
 
-  boxesSize() {
-    return this.boxes.length;
+  /**
+   * Calculates the fullness ratio of the container based on the free and packed boxes.
+   * The fullness ratio represents the occupied space in the container.
+   *
+   * @returns The fullness ratio, ranging from 0 to 1, where 0 means empty and 1 means fully occupied.
+   */
+  protected calculateFullness() {
+    const [cornerX, cornerY] = this.farCorner();
+    return freeSpaceFullness(this.freeBoxes, this.packedBoxes, cornerX, cornerY);
   }
+}
 
-  getBoxes() {
-    return this.boxes;
-  }
+/**
+ * Compares two scored positions in the order of a full search: the higher score wins,
+ * then the earlier free box, then the orientation the box was added with.
+ *
+ * @returns True if the first position is better.
+ */
+function isBetterCandidate(a: Candidate, b: Candidate) {
+  if (a.score !== b.score) return a.score > b.score;
+  if (a.order !== b.order) return a.order < b.order;
+  return !a.turned && b.turned;
 }
 
 export default Packer;
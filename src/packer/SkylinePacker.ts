@@ -0,0 +1,266 @@
+import BasePacker from "./BasePacker";
+import { Box } from "./Box";
+import { isOrientationAllowed } from "./rotation";
+import { complementRects } from "./shape";
+import { PackDirection, SkylineRule } from "./types";
+
+type SkylineSegment = { x: number; y: number; width: number };
+
+/**
+ * SkylinePacker class for fast packing of boxes into a container.
+ * The free space is kept as a skyline: the top edge of the packed boxes seen from the open side of the container.
+ * Space hidden below the skyline is never reused, which makes every step cheap at the cost of some density.
+ */
+class SkylinePacker<T = unknown> extends BasePacker<T> {
+  private skyline: SkylineSegment[] = [];
+
+  constructor(
+    containerWidth: number,
+    containerHeight: number,
+    direction: PackDirection = "none",
+    private rule: SkylineRule = "bottom-left"
+  ) {
+    super(containerWidth, containerHeight, direction);
+  }
+
+  /**
+   * Set the rule that chooses the position of a box on the skyline.
+   * @param rule - The skyline rule.
+   * @remarks
+   * - "bottom-left": Minimize the far edge of the box, then its left edge.
+   * - "min-waste": Minimize the area left unusable below the box, then its far edge.
+   *
+   * The placement heuristic and the packing direction of the Packer options are not used by the skyline.
+   */
+  setRule(rule: SkylineRule) {
+    this.rule = rule;
+    this.isPrepared = false;
+  }
+
+  /**
+   * Resets the state of the packing algorithm, clearing various lists and resetting variables.
+   */
+  protected reset() {
+    super.reset();
+    this.skyline.length = 0;
+  }
+
+  /**
+   * Adds an initial skyline segment covering the whole width of the packing area.
+   */
+  protected initContainer() {
+    this.skyline.push({ x: 0, y: 0, width: this.innerWidth });
+  }
+
+  /**
+   * Finds the best position for a given box on the skyline.
+   *
+   * @param box - The box to be positioned.
+   * @param testBox - The test box to store the final coordinates and score.
+   */
+  protected findBoxPosition(box: Box, testBox: Box) {
+    let bestScore = -Infinity;
+
+    const rotation = this.rotationOf(box);
+    const canKeep = isOrientationAllowed(rotation, box.rotated);
+    const canTurn = isOrientationAllowed(rotation, !box.rotated);
+    const width = box.width + this.spacing;
+    const height = box.height + this.spacing;
+
+    for (let i = 0; i < this.skyline.length; i++) {
+      const x = this.skyline[i].x;
+      if (canKeep) {
+        const y = this.fitSegment(i, width, height);
+        const score = this.calculateScore(i, y, width, height);
+        if (y >= 0) this.traceCandidate(box, x, y, x + width, y + height, box.rotated, score);
+        if (score > bestScore) {
+          testBox.setCoord(x, y, x + width, y + height);
+          testBox.rotated = box.rotated;
+          bestScore = score;
+        }
+      }
+      if (canTurn) {
+        const y = this.fitSegment(i, height, width);
+        const score = this.calculateScore(i, y, height, width);
+        if (y >= 0) this.traceCandidate(box, x, y, x + height, y + width, !box.rotated, score);
+        if (score > bestScore) {
+          testBox.setCoord(x, y, x + height, y + width);
+          testBox.rotated = !box.rotated;
+          bestScore = score;
+        }
+      }
+    }
+    testBox.mark = bestScore;
+    testBox.id = box.id;
+  }
+
+  /**
+   * Calculates an upper limit of the score of a box anywhere on the skyline.
+   * The skyline rules ignore the placement heuristic, so its limit does not apply.
+   *
+   * @param box - The box to be checked.
+   * @returns The limit.
+   */
+  protected scoreLimit(box: Box) {
+    // The far edge of a box is at least its shorter side away, the wasted area is never negative
+    return this.rule === "min-waste" ? 0 : -(Math.min(box.width, box.height) + this.spacing);
+  }
+
+  /**
+   * Finds the lowest position of a box whose left edge starts at the given skyline segment.
+   *
+   * @param index - The index of the skyline segment.
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @returns The top coordinate of the box, or -1 if it does not fit.
+   */
+  private fitSegment(index: number, width: number, height: number) {
+    const skyline = this.skyline;
+    if (skyline[index].x + width > this.innerWidth) return -1;
+
+    let widthLeft = width;
+    let y = 0;
+    for (let i = index; widthLeft > 0; i++) {
+      y = Math.max(y, skyline[i].y);
+      if (y + height > this.innerHeight) return -1;
+      widthLeft -= skyline[i].width;
+    }
+    return y;
+  }
+
+  /**
+   * Calculates the area that a box leaves unusable between its top edge and the skyline.
+   *
+   * @param index - The index of the skyline segment where the box starts.
+   * @param width - The width of the box.
+   * @param y - The top coordinate of the box.
+   * @returns The wasted area.
+   */
+  private wastedArea(index: number, width: number, y: number) {
+    const skyline = this.skyline;
+    let widthLeft = width;
+    let waste = 0;
+    for (let i = index; widthLeft > 0; i++) {
+      const covered = Math.min(widthLeft, skyline[i].width);
+      waste += (y - skyline[i].y) * covered;
+      widthLeft -= covered;
+    }
+    return waste;
+  }
+
+  /**
+   * Calculates a score of a candidate position according to the skyline rule, higher is better.
+   *
+   * @param index - The index of the skyline segment where the box starts.
+   * @param y - The top coordinate of the box, or -1 if it does not fit.
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @returns The calculated score, or -Infinity if the box does not fit.
+   */
+  private calculateScore(index: number, y: number, width: number, height: number) {
+    if (y < 0) return -Infinity;
+    const bottom = y + height;
+    if (this.rule === "min-waste") return -(this.wastedArea(index, width, y) + bottom / (this.innerHeight + 1));
+    return -(bottom + this.skyline[index].x / (this.innerWidth + 1));
+  }
+
+  /**
+   * Adds a packed box to the list of packed boxes and raises the skyline over it.
+   *
+   * @param box - The box to be added to the list of packed boxes.
+   */
+  protected addPackedBox(box: Box) {
+    const skyline = this.skyline;
+    const index = skyline.findIndex(segment => segment.x === box.left);
+
+    skyline.splice(index, 0, { x: box.left, y: box.bottom, width: box.width });
+
+    // Shrink or remove the segments covered by the new one
+    for (let i = index + 1; i < skyline.length; i++) {
+      const segment = skyline[i];
+      const shrink = box.right - segment.x;
+      if (shrink <= 0) break;
+      segment.x += shrink;
+      segment.width -= shrink;
+      if (segment.width > 0) break;
+      skyline.splice(i--, 1);
+    }
+
+    this.mergeSegments();
+    this.packedBoxes.push(box);
+  }
+
+  /**
+   * Raises the skyline over a reserved area up to its bottom edge.
+   * The space between the area and the previous skyline is never used.
+   *
+   * @param box - The area to be removed.
+   */
+  protected reserveBox(box: Box) {
+    const skyline: SkylineSegment[] = [];
+
+    for (const segment of this.skyline) {
+      const end = segment.x + segment.width;
+      const start = Math.max(segment.x, box.left);
+      const stop = Math.min(end, box.right);
+      if (segment.x < box.left) skyline.push({ x: segment.x, y: segment.y, width: Math.min(end, box.left) - segment.x });
+      if (stop > start) skyline.push({ x: start, y: Math.max(segment.y, box.bottom), width: stop - start });
+      if (end > box.right) skyline.push({ x: Math.max(segment.x, box.right), y: segment.y, width: end - Math.max(segment.x, box.right) });
+    }
+
+    this.skyline = skyline;
+    this.mergeSegments();
+  }
+
+  /**
+   * Merges neighbouring skyline segments of the same level.
+   */
+  private mergeSegments() {
+    const skyline = this.skyline;
+    for (let i = 0; i < skyline.length - 1; i++) {
+      if (skyline[i].y === skyline[i + 1].y) {
+        skyline[i].width += skyline[i + 1].width;
+        skyline.splice(i-- + 1, 1);
+      }
+    }
+  }
+
+  /**
+   * Lists the space above the skyline, a free rectangle over every segment reaching the far edge of the packing area.
+   * The space hidden below the skyline is not free, even if no box covers it.
+   *
+   * @returns The free boxes.
+   */
+  protected freeSpace() {
+    return this.skyline.map(({ x, y, width }) => Box.createFromCoord(x, y, x + width, this.innerHeight));
+  }
+
+  /**
+   * Calculates the fullness ratio of the container based on the skyline and the packed boxes.
+   * The space below the skyline that is not covered by boxes is treated as waste, the reserved areas are left out.
+   * They may overlap each other and reach above the skyline, so only their union below every segment is subtracted.
+   *
+   * @returns The fullness ratio, ranging from 0 to 1, where 0 means empty and 1 means fully occupied.
+   */
+  protected calculateFullness() {
+    let skylineSquare = 0;
+    for (const { x, y, width } of this.skyline) {
+      // The reserved areas below the segment, shifted to its left edge
+      const reserved = this.reservedBoxes
+        .map(box => ({
+          left: Math.max(box.left - x, 0),
+          top: Math.max(box.top, 0),
+          right: Math.min(box.right - x, width),
+          bottom: Math.min(box.bottom, y)
+        }))
+        .filter(rect => rect.right > rect.left && rect.bottom > rect.top);
+      const free = complementRects(reserved, width, y);
+      skylineSquare += free.reduce((accum, rect) => accum + (rect.right - rect.left) * (rect.bottom - rect.top), 0);
+    }
+    if (skylineSquare === 0) return 0;
+    const boxSquare = this.packedBoxes.reduce((accum, box) => accum + box.square(), 0);
+    return 1 - (skylineSquare - boxSquare) / skylineSquare;
+  }
+}
+
+export default SkylinePacker;
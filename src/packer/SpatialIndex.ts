@@ -0,0 +1,174 @@
+import { Box } from "./Box";
+
+type Entry = { box: Box; order: number; column: number; row: number };
+
+const MAX_CELLS = 4096;
+const MAX_BOX_CELLS = 16;
+
+/**
+ * SpatialIndex class for finding the boxes near an area without scanning all of them.
+ * The area is divided into a grid of square cells, every box is listed in each cell it covers or touches.
+ * Boxes spanning many cells, e.g. the large free areas of an empty container, are kept in a separate list instead.
+ * A search returns the boxes in the order they were added, so the results do not depend on the size of the cells.
+ */
+class SpatialIndex {
+  private cells = new Map<number, Entry[]>();
+  private large: Entry[] = [];
+  private entries = new Map<Box, Entry>();
+  private insertions = 0;
+  private columns: number;
+  private rows: number;
+  private cellSize: number;
+
+  /**
+   * Creates an empty index of an area.
+   *
+   * @param width - The width of the indexed area.
+   * @param height - The height of the indexed area.
+   * @param cellSize - The preferred side of a cell, e.g. the average size of the boxes. It is enlarged
+   * when the area would be divided into too many cells.
+   */
+  constructor(width: number, height: number, cellSize: number) {
+    this.cellSize = Math.max(1, cellSize, Math.sqrt((width * height) / MAX_CELLS));
+    this.columns = Math.floor(Math.max(0, width) / this.cellSize) + 1;
+    this.rows = Math.floor(Math.max(0, height) / this.cellSize) + 1;
+  }
+
+  /**
+   * Adds a box to the index.
+   *
+   * @param box - The box to be added, its coordinates must not change while it is indexed.
+   * @param order - The position of the box in the order the boxes were added (optional, default is after all
+   * added boxes), e.g. to keep the place of a box that was removed to change its coordinates.
+   */
+  insert(box: Box, order = this.insertions++) {
+    const entry: Entry = {
+      box,
+      order,
+      column: this.column(box.left),
+      row: this.row(box.top)
+    };
+    this.entries.set(box, entry);
+    if (this.isLarge(box)) {
+      this.large.push(entry);
+      return;
+    }
+    this.forEachCell(box.left, box.top, box.right, box.bottom, key => {
+      const cell = this.cells.get(key);
+      if (cell) cell.push(entry);
+      else this.cells.set(key, [entry]);
+    });
+  }
+
+  /**
+   * Removes a box from the index.
+   *
+   * @param box - The box to be removed.
+   */
+  remove(box: Box) {
+    const entry = this.entries.get(box);
+    if (!entry) return;
+    this.entries.delete(box);
+    if (this.isLarge(box)) {
+      this.large.splice(this.large.indexOf(entry), 1);
+      return;
+    }
+    this.forEachCell(box.left, box.top, box.right, box.bottom, key => {
+      const cell = this.cells.get(key);
+      cell.splice(cell.indexOf(entry), 1);
+    });
+  }
+
+  /**
+   * Finds the boxes overlapping or touching an area, including the boxes touching it only by a corner.
+   *
+   * @param left - The left coordinate of the area.
+   * @param top - The top coordinate of the area.
+   * @param right - The right coordinate of the area.
+   * @param bottom - The bottom coordinate of the area.
+   * @returns The boxes in the order they were added.
+   */
+  search(left: number, top: number, right: number, bottom: number): Box[] {
+    const firstColumn = this.column(left);
+    const firstRow = this.row(top);
+    const found: Entry[] = [];
+    let sources = 0;
+
+    this.forEachCell(left, top, right, bottom, (key, column, row) => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      sources++;
+      for (const entry of cell) {
+        const { box } = entry;
+        if (box.left > right || box.right < left || box.top > bottom || box.bottom < top) continue;
+        // A box listed in several cells is reported from the first cell it shares with the area
+        if (column === Math.max(firstColumn, entry.column) && row === Math.max(firstRow, entry.row)) found.push(entry);
+      }
+    });
+
+    if (this.large.length) {
+      sources++;
+      for (const entry of this.large) {
+        const { box } = entry;
+        if (box.left <= right && box.right >= left && box.top <= bottom && box.bottom >= top) found.push(entry);
+      }
+    }
+
+    // The entries of a single list are already in the order they were added
+    if (sources > 1) found.sort((a, b) => a.order - b.order);
+    return found.map(entry => entry.box);
+  }
+
+  /**
+   * The position the next added box will get in the order the boxes were added.
+   */
+  get nextOrder() {
+    return this.insertions;
+  }
+
+  /**
+   * Retrieves the position of a box in the order the boxes were added.
+   *
+   * @param box - The indexed box.
+   * @returns The position, a smaller number means the box was added earlier.
+   */
+  orderOf(box: Box) {
+    return this.entries.get(box).order;
+  }
+
+  /**
+   * Calls a function for every cell covering or touching an area.
+   */
+  private forEachCell(
+    left: number,
+    top: number,
+    right: number,
+    bottom: number,
+    callback: (key: number, column: number, row: number) => void
+  ) {
+    const lastColumn = this.column(right);
+    const lastRow = this.row(bottom);
+    for (let row = this.row(top); row <= lastRow; row++) {
+      for (let column = this.column(left); column <= lastColumn; column++) callback(row * this.columns + column, column, row);
+    }
+  }
+
+  /**
+   * Checks whether a box spans too many cells to be listed in each of them.
+   */
+  private isLarge(box: Box) {
+    const columns = this.column(box.right) - this.column(box.left) + 1;
+    const rows = this.row(box.bottom) - this.row(box.top) + 1;
+    return columns * rows > MAX_BOX_CELLS;
+  }
+
+  private column(x: number) {
+    return Math.min(this.columns - 1, Math.max(0, Math.floor(x / this.cellSize)));
+  }
+
+  private row(y: number) {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+  }
+}
+
+export default SpatialIndex;
@@ -0,0 +1,197 @@
+import BasePacker from "./BasePacker";
+import { createPacker } from "./createPacker";
+import { assertMandatoryPlaced } from "./errors";
+import { IdSequence, instancesOf } from "./input";
+import { toMargins } from "./margins";
+import { PackAlgorithm, PackDirection, PackerOptions, BoxOptions, StripResult } from "./types";
+
+type StripBox<T> = { width: number; height: number; id: number; options: BoxOptions<T> };
+
+// The finest step of the length search, finer decimals of the sizes are rounded up to it
+const MAX_DECIMALS = 6;
+
+/**
+ * StripPacker class for packing boxes into a strip of fixed width and unbounded length, e.g. a roll of material.
+ * The length is minimized by packing the boxes into containers of different lengths and keeping
+ * the shortest layout that places every box that fits the width of the strip.
+ */
+class StripPacker<T = unknown> {
+  private boxes: StripBox<T>[] = [];
+  private options: PackerOptions = {};
+  private algorithm: PackAlgorithm = "maxrects";
+  private packer: BasePacker<T>;
+  private ids = new IdSequence();
+
+  constructor(private stripWidth: number, direction: PackDirection = "none") {
+    this.options.direction = direction;
+  }
+
+  /**
+   * Set the packing algorithm.
+   * @param algorithm - The packing algorithm.
+   */
+  setAlgorithm(algorithm: PackAlgorithm) {
+    this.algorithm = algorithm;
+    this.packer = undefined;
+  }
+
+  /**
+   * Applies packing options. Options that are not specified keep their current values.
+   *
+   * @param options - The packing options.
+   */
+  setOptions(options: PackerOptions) {
+    this.options = { ...this.options, ...options };
+    this.packer = undefined;
+  }
+
+  /**
+   * Changes the width of the strip.
+   *
+   * @param width - The new width of the strip.
+   */
+  resizeStrip(width: number) {
+    this.stripWidth = width;
+    this.packer = undefined;
+  }
+
+  /**
+   * Adds a box to the list of boxes.
+   *
+   * @param width - The width of the box.
+   * @param height - The height of the box.
+   * @param id - The identifier for the box (optional, default is the next unused identifier).
+   * @param options - Per-box options, e.g. a rotation policy, a quantity or a payload (optional).
+   * @returns The identifier of the box.
+   */
+  addBox(width: number, height: number, id?: number, options: BoxOptions<T> = {}) {
+    const boxId = this.ids.take(id);
+    for (const instance of instancesOf(options)) this.boxes.push({ width, height, id: boxId, options: instance });
+    this.packer = undefined;
+    return boxId;
+  }
+
+  /**
+   * Clears all boxes and the last layout.
+   */
+  clear() {
+    this.boxes.length = 0;
+    this.ids.reset();
+    this.packer = undefined;
+  }
+
+  /**
+   * Packs the boxes into the strip, searching for the shortest length that holds them.
+   * The search halves the range between the area bound and the length of all boxes laid end to end.
+   * The lengths are searched in steps of the finest decimal of the box sizes, the spacing and the margins,
+   * at most six decimals, so the edges of a layout of decimal sizes lie on the searched lengths.
+   * The greedy packing is not monotonic in the length, so the shortest successful layout of all attempts is kept.
+   *
+   * @returns An array containing the packed boxes.
+   * @throws MandatoryBoxError if a mandatory box is left out and the check is enabled, the layout stays available.
+   */
+  pack() {
+    const { top, bottom, left, right } = toMargins(this.options.margins || 0);
+    const spacing = this.options.spacing || 0;
+    const width = this.stripWidth - left - right + spacing;
+
+    // Every box laid end to end gives a layout of the greatest length that is needed
+    let best = this.attempt(this.boxes.reduce((sum, box) => sum + Math.max(box.width, box.height) + spacing, 0) + top + bottom);
+    const placed = best.getResult().placed;
+    const total = placed.length;
+
+    // The area of the boxes that fit the width bounds the length from below
+    const area = placed.reduce((sum, box) => sum + (box.width + spacing) * (box.height + spacing), 0);
+
+    // The bounds of the search are counted in steps, the shortest failed length and the shortest successful one
+    const sizes = this.boxes.reduce((values, box) => values.concat(box.width, box.height), [spacing, top, bottom]);
+    const scale = 10 ** decimalsOf(sizes);
+    const toSteps = (length: number) => Math.ceil(length * scale - 1e-6);
+    let high = toSteps(this.innerLength(best));
+    let low = Math.min(high - 1, Math.max(0, Math.floor((area / width) * scale) - 1));
+
+    while (high - low > 1) {
+      const steps = Math.floor((low + high) / 2);
+      const packer = this.attempt(steps / scale + top + bottom - spacing);
+      if (packer.getResult().placed.length < total) {
+        low = steps;
+        continue;
+      }
+      if (this.innerLength(packer) < this.innerLength(best)) best = packer;
+      high = Math.min(steps, toSteps(this.innerLength(best)));
+    }
+
+    this.packer = best;
+    if (this.options.mandatoryCheck !== false) {
+      const { unplaced, rejected } = best.getResult();
+      assertMandatoryPlaced([...unplaced, ...rejected]);
+    }
+    return best.pack();
+  }
+
+  /**
+   * Packs the boxes into a container of the strip width and the given length.
+   *
+   * @param length - The length of the container.
+   * @returns The packer holding the layout.
+   */
+  private attempt(length: number) {
+    const packer = createPacker<T>(this.algorithm, this.stripWidth, length);
+    packer.setOptions({ ...this.options, mandatoryCheck: false });
+    for (const box of this.boxes) packer.addBox(box.width, box.height, box.id, box.options);
+    packer.pack();
+    return packer;
+  }
+
+  /**
+   * Calculates the length of the packing area used by a layout, measured from the start of the packing area
+   * to the far edge of the farthest box including its spacing.
+   *
+   * @param packer - The packer holding the layout.
+   * @returns The used length of the packing area.
+   */
+  private innerLength(packer: BasePacker<T>) {
+    const { top } = toMargins(this.options.margins || 0);
+    const farthest = packer.getResult().placed.reduce((max, box) => Math.max(max, box.bottom), top);
+    return farthest - top + (this.options.spacing || 0);
+  }
+
+  /**
+   * Builds a structured report of the last packing, packing the boxes first if needed.
+   * The fullness ratio is measured against the used length of the strip instead of the container length.
+   *
+   * @returns The placed, unplaced and rejected boxes, the fullness ratio and the used length.
+   */
+  getResult(): StripResult<T> {
+    if (!this.packer) this.pack();
+
+    const result = this.packer.getResult();
+    const { bottom, left, right } = toMargins(this.options.margins || 0);
+    const spacing = this.options.spacing || 0;
+    const boxSquare = result.placed.reduce((sum, box) => sum + (box.width + spacing) * (box.height + spacing), 0);
+    const stripSquare = (this.stripWidth - left - right + spacing) * this.innerLength(this.packer);
+    const farthest = result.placed.reduce((max, box) => Math.max(max, box.bottom), 0);
+
+    return {
+      ...result,
+      fullness: stripSquare > 0 ? boxSquare / stripSquare : 0,
+      usedLength: result.placed.length ? farthest + bottom : 0
+    };
+  }
+}
+
+/**
+ * Finds the number of decimals needed to write all values, at most MAX_DECIMALS.
+ *
+ * @param values - The values, e.g. the box sizes.
+ * @returns The number of decimals.
+ */
+function decimalsOf(values: number[]) {
+  let decimals = 0;
+  for (const value of values) {
+    while (decimals < MAX_DECIMALS && Math.abs(Math.round(value * 10 ** decimals) - value * 10 ** decimals) > 1e-6) decimals++;
+  }
+  return decimals;
+}
+
+export default StripPacker;
@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as path from "path";
+import AutoSizePacker from "./AutoSizePacker";
+import { createImage, decodePng, encodePng } from "./png";
+import { Atlas, AtlasOptions, AtlasSprite, Rect, RgbaImage, TexturePackerHash } from "./types";
+
+/**
+ * Finds the part of an image holding its visible pixels, the pixels that are not fully transparent.
+ *
+ * @param image - The image.
+ * @returns The bounds of the visible pixels, a single pixel in the top left corner if the whole image is transparent.
+ */
+export function trimBounds(image: RgbaImage): Rect {
+  const { width, height, data } = image;
+  let left = width;
+  let top = height;
+  let right = 0;
+  let bottom = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      left = Math.min(left, x);
+      right = Math.max(right, x + 1);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y + 1);
+    }
+  }
+  return right > left ? { left, top, right, bottom } : { left: 0, top: 0, right: Math.min(1, width), bottom: Math.min(1, height) };
+}
+
+/**
+ * Packs sprites into the smallest atlas found by `AutoSizePacker` and draws them into the atlas image.
+ * A rotated sprite is turned by 90 degrees clockwise, like in the atlases of TexturePacker.
+ *
+ * @param sprites - The sprites, each with a unique name.
+ * @param options - The atlas options (optional).
+ * @returns The atlas image, the frames of the placed sprites by their names and the names of the sprites left out.
+ * @remarks
+ * - algorithm: The packing algorithm (default is "maxrects").
+ * - padding: The gap between the sprites in pixels (default is 0).
+ * - border: The gap between the sprites and the edges of the atlas in pixels (default is 0).
+ * - rotation: Whether the sprites may be rotated (default is "allowed").
+ * - trim: Whether the transparent borders of the sprites are cut off (default is true).
+ * - objective, powerOfTwo, square, maxWidth, maxHeight...: The constraints of the atlas size, see `AutoSizePacker.setSizing`.
+ */
+export function buildAtlas(sprites: AtlasSprite[], options: AtlasOptions = {}): Atlas {
+  const { algorithm = "maxrects", padding = 0, border = 0, rotation = "allowed", trim = true, ...sizing } = options;
+  const bounds = sprites.map(({ image }) => (trim ? trimBounds(image) : { left: 0, top: 0, right: image.width, bottom: image.height }));
+
+  const packer = new AutoSizePacker(sizing);
+  packer.setAlgorithm(algorithm);
+  packer.setOptions({ spacing: padding, margins: border, rotation });
+  bounds.forEach((rect, index) => packer.addBox(rect.right - rect.left, rect.bottom - rect.top, index));
+  packer.pack();
+
+  const result = packer.getResult();
+  const image = createImage(result.width, result.height);
+  const frames: Atlas["frames"] = {};
+  const placed = new Map(result.placed.map(box => [box.id, box]));
+
+  sprites.forEach((sprite, index) => {
+    const box = placed.get(index);
+    if (!box) return;
+    const rect = bounds[index];
+    const w = rect.right - rect.left;
+    const h = rect.bottom - rect.top;
+    drawSprite(sprite.image, rect, image, box.left, box.top, box.rotated);
+    frames[sprite.name] = {
+      frame: { x: box.left, y: box.top, w, h },
+      rotated: box.rotated,
+      trimmed: w !== sprite.image.width || h !== sprite.image.height,
+      spriteSourceSize: { x: rect.left, y: rect.top, w, h },
+      sourceSize: { w: sprite.image.width, h: sprite.image.height }
+    };
+  });
+
+  const unplaced = sprites.filter((_, index) => !placed.has(index)).map(sprite => sprite.name);
+  return { image, frames, unplaced };
+}
+
+/**
+ * Describes an atlas in the JSON hash format of TexturePacker, which Phaser, PixiJS and other engines load.
+ * The frame of a rotated sprite keeps the size of the sprite before the rotation, as in that format.
+ *
+ * @param atlas - The atlas.
+ * @param imageName - The file name of the atlas image, relative to the JSON file.
+ * @returns The frames and the metadata of the atlas.
+ */
+export function toTexturePackerHash(atlas: Atlas, imageName: string): TexturePackerHash {
+  return {
+    frames: atlas.frames,
+    meta: {
+      app: "ts-rect-placement",
+      version: "1.0",
+      image: imageName,
+      format: "RGBA8888",
+      size: { w: atlas.image.width, h: atlas.image.height },
+      scale: "1"
+    }
+  };
+}
+
+/**
+ * Reads the PNG files of a directory as sprites named by their file names, in the order of the names.
+ *
+ * @param directory - The path of the directory, its subdirectories are not read.
+ * @returns The sprites.
+ * @throws Error naming the file that is not a valid PNG file.
+ */
+export function readSprites(directory: string): AtlasSprite[] {
+  const names = fs.readdirSync(directory).filter(name => name.toLowerCase().endsWith(".png"));
+  return names.sort().map(name => {
+    try {
+      return { name, image: decodePng(fs.readFileSync(path.join(directory, name))) };
+    } catch (error) {
+      throw new Error(`${name}: ${error.message}`);
+    }
+  });
+}
+
+/**
+ * Writes an atlas as a PNG image and a TexturePacker JSON hash referring to the image.
+ *
+ * @param atlas - The atlas.
+ * @param imagePath - The path of the PNG file.
+ * @param dataPath - The path of the JSON file.
+ */
+export function writeAtlas(atlas: Atlas, imagePath: string, dataPath: string) {
+  const imageName = path.relative(path.dirname(dataPath), imagePath).split(path.sep).join("/");
+  fs.writeFileSync(imagePath, encodePng(atlas.image));
+  fs.writeFileSync(dataPath, JSON.stringify(toTexturePackerHash(atlas, imageName), null, 2) + "\n");
+}
+
+/**
+ * Copies a part of a sprite into the atlas, turning it by 90 degrees clockwise if it is rotated.
+ */
+function drawSprite(source: RgbaImage, rect: Rect, target: RgbaImage, left: number, top: number, rotated: boolean) {
+  const width = rect.right - rect.left;
+  const height = rect.bottom - rect.top;
+  for (let y = 0; y < height; y++) {
+    const from = ((rect.top + y) * source.width + rect.left) * 4;
+    if (!rotated) {
+      target.data.set(source.data.subarray(from, from + width * 4), ((top + y) * target.width + left) * 4);
+      continue;
+    }
+    // The row y of the sprite becomes the column height - 1 - y of the atlas
+    for (let x = 0; x < width; x++) {
+      const to = ((top + x) * target.width + left + height - 1 - y) * 4;
+      target.data.set(source.data.subarray(from + x * 4, from + x * 4 + 4), to);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { FormatError } from "./errors";
+import { validateSchema } from "./schema";
+import { BoxListFormat, BoxSpec, FormatIssue, JsonSchema } from "./types";
+
+const CSV_COLUMNS = ["width", "height", "qty", "label"];
+
+const boxListSchema: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      width: { type: "number" },
+      height: { type: "number" },
+      quantity: { type: "integer", minimum: 0 },
+      label: { type: "string" }
+    },
+    required: ["width", "height"]
+  }
+};
+
+/**
+ * Reads a list of boxes, e.g. an order exported from a spreadsheet.
+ *
+ * @param text - The text of the list.
+ * @param format - The format of the list.
+ * @returns The boxes in the order of the list, with their quantity and label as box options.
+ * @throws FormatError listing every invalid value, by its path in a JSON list or by its line and column in a CSV list.
+ * @remarks
+ * - "json": An array of boxes like in `blocksData.json`, `{ "width": 90, "height": 90 }`,
+ * each with an optional `quantity` and `label`.
+ * - "csv": A box per line, `width,height,qty,label`, the quantity and the label are optional.
+ * A first line naming the columns, empty lines and lines starting with "#" are skipped.
+ * A label holding a comma or a quote is quoted with double quotes, a quote inside it is doubled.
+ */
+export function readBoxList(text: string, format: BoxListFormat): BoxSpec[] {
+  return format === "csv" ? readCsv(text) : readJson(text);
+}
+
+/**
+ * Writes a list of boxes in the format read by `readBoxList`. The identifiers and the other box options are left out.
+ *
+ * @param boxes - The boxes.
+ * @param format - The format of the list.
+ * @returns The text of the list, a CSV list starts with a line naming the columns.
+ */
+export function writeBoxList(boxes: BoxSpec[], format: BoxListFormat): string {
+  if (format === "json") {
+    const list = boxes.map(({ width, height, options = {} }) => ({ width, height, quantity: options.quantity, label: options.label }));
+    return JSON.stringify(list, null, 2) + "\n";
+  }
+
+  const lines = boxes.map(({ width, height, options = {} }) => {
+    const quantity = options.quantity === undefined ? "" : String(options.quantity);
+    const label = options.label === undefined ? "" : quoteCsv(options.label);
+    // The empty optional columns at the end are left out
+    return [width, height, quantity, label].join(",").replace(/,+$/, "");
+  });
+  return [CSV_COLUMNS.join(","), ...lines].join("\n") + "\n";
+}
+
+function readJson(text: string): BoxSpec[] {
+  let list: unknown;
+  try {
+    list = JSON.parse(text);
+  } catch (error) {
+    throw new FormatError("box list", [{ path: "$", message: `is not valid JSON, ${error.message}` }]);
+  }
+  const issues = validateSchema(list, boxListSchema);
+  if (issues.length) throw new FormatError("box list", issues);
+
+  return (list as { width: number; height: number; quantity?: number; label?: string }[]).map(
+    ({ width, height, quantity, label }) => ({ width, height, options: { quantity, label } })
+  );
+}
+
+function readCsv(text: string): BoxSpec[] {
+  const boxes: BoxSpec[] = [];
+  const issues: FormatIssue[] = [];
+  let isFirst = true;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const path = `line ${index + 1}`;
+    if (!line.trim() || line.trim().startsWith("#")) return;
+    const cells = splitCsvLine(line);
+    if (!cells) {
+      issues.push({ path, message: "has an unclosed quote" });
+      return;
+    }
+    // The first line may name the columns
+    const isHeader = isFirst && cells[0].trim().toLowerCase() === CSV_COLUMNS[0];
+    isFirst = false;
+    if (isHeader) return;
+    if (cells.length < 2 || cells.length > CSV_COLUMNS.length) {
+      const got = `${cells.length} column${cells.length === 1 ? "" : "s"}`;
+      issues.push({ path, message: `expected ${CSV_COLUMNS.join(",")} with an optional qty and label, got ${got}` });
+      return;
+    }
+
+    const [width, height, quantity = "", label = ""] = cells;
+    const values = [width, height, quantity].map(cell => cell.trim());
+    const numbers = values.map(value => (value ? Number(value) : undefined));
+    const found: FormatIssue[] = [];
+    numbers.forEach((value, column) => {
+      const issue = (message: string) => found.push({ path: `${path}, ${CSV_COLUMNS[column]}`, message });
+      if (value === undefined) {
+        if (column < 2) issue("is required");
+      } else if (!Number.isFinite(value)) {
+        issue(`expected a number, got "${values[column]}"`);
+      } else if (column === 2 && !(Number.isInteger(value) && value >= 0)) {
+        issue(`must be a whole number of at least 0, got ${value}`);
+      }
+    });
+    issues.push(...found);
+    if (found.length) return;
+
+    boxes.push({ width: numbers[0], height: numbers[1], options: { quantity: numbers[2], label: label.trim() || undefined } });
+  });
+
+  if (issues.length) throw new FormatError("box list", issues);
+  return boxes;
+}
+
+/**
+ * Splits a line of a CSV file into its cells, unquoting the quoted ones.
+ *
+ * @returns The cells, or undefined if a quote is not closed.
+ */
+function splitCsvLine(line: string): string[] | undefined {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += char;
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) return undefined;
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Quotes a cell of a CSV file if it holds a comma or a quote.
+ */
+function quoteCsv(cell: string) {
+  return /[",]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
@@ -0,0 +1,44 @@
+/**
+ * Creates a random color.
+ *
+ * @param random - The source of random numbers from 0 to 1 (optional, default is Math.random).
+ * @returns The color in the "#RRGGBB" notation.
+ */
+export function getRandomColor(random: () => number = Math.random) {
+  const letters = "0123456789ABCDEF".split("");
+  let color = "#";
+  for (let i = 0; i < 6; i++) {
+    color += letters[Math.round(random() * 15)];
+  }
+  return color;
+}
+
+/**
+ * Creates a function giving every key its own random color, the same one for every call with the key.
+ *
+ * @param random - The source of random numbers (optional), a seeded one gives the same colors on every run.
+ * @returns The function returning the color of a key.
+ */
+export function createColorMapGenerator(random: () => number = Math.random) {
+  const colorMap = new Map<string, string>();
+  const colorSet = new Set<string>();
+
+  return function(key: string) {
+    let color = colorMap.get(key);
+    if (!color) {
+      do {
+        color = getRandomColor(random);
+      } while (colorSet.has(color));
+      colorSet.add(color);
+      colorMap.set(key, color);
+    }
+    return color;
+  };
+}
+
+/**
+ * Names the size of a box regardless of its orientation, e.g. "20x50" for both a 20x50 and a 50x20 box.
+ */
+export function sizeKeyOf(width: number, height: number) {
+  return Math.min(width, height) + "x" + Math.max(width, height);
+}
@@ -0,0 +1,37 @@
+import BasePacker from "./BasePacker";
+import GuillotinePacker from "./GuillotinePacker";
+import Packer from "./Packer";
+import SkylinePacker from "./SkylinePacker";
+import { PackAlgorithm, PackDirection } from "./types";
+
+/**
+ * Creates a packer implementing the given algorithm.
+ *
+ * @param algorithm - The packing algorithm.
+ * @param width - The width of the container.
+ * @param height - The height of the container.
+ * @param direction - The packing direction (optional, default is "none").
+ * @returns The packer instance.
+ * @remarks
+ * - "maxrects": Overlapping maximal free rectangles, the densest and the slowest (default of the demo).
+ * - "skyline-bottom-left": Skyline with the lowest position first, the fastest.
+ * - "skyline-min-waste": Skyline with the least space left below the box first.
+ * - "guillotine": Disjoint free rectangles split edge to edge, with merging of free rectangles.
+ */
+export function createPacker<T = unknown>(
+  algorithm: PackAlgorithm,
+  width: number,
+  height: number,
+  direction: PackDirection = "none"
+): BasePacker<T> {
+  switch (algorithm) {
+    case "skyline-bottom-left":
+      return new SkylinePacker<T>(width, height, direction, "bottom-left");
+    case "skyline-min-waste":
+      return new SkylinePacker<T>(width, height, direction, "min-waste");
+    case "guillotine":
+      return new GuillotinePacker<T>(width, height, direction);
+    default:
+      return new Packer<T>(width, height, direction);
+  }
+}
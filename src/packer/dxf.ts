@@ -0,0 +1,117 @@
+import { decomposePolygon, outlineOf } from "./shape";
+import { DxfOptions, DxfUnits, ExportPlacement, LayoutContainer, Point } from "./types";
+
+// The values of the $INSUNITS header variable
+const UNIT_CODES: { [units in DxfUnits]: number } = { unitless: 0, in: 1, ft: 2, mm: 4, cm: 5, m: 6 };
+// The values of the $MEASUREMENT header variable, 0 for imperial and 1 for metric units
+const MEASUREMENT_CODES: { [units in DxfUnits]?: number } = { in: 0, ft: 0, mm: 1, cm: 1, m: 1 };
+
+// The layer colors by their AutoCAD color index
+const CONTAINER_COLOR = 7;
+const OBSTACLE_COLOR = 8;
+const PART_COLOR = 3;
+const LABEL_COLOR = 5;
+
+/**
+ * Writes a layout as an ASCII DXF drawing (AutoCAD R12) for laser and CNC software. Every part is a closed polyline,
+ * the outline of the container and the obstacles are closed polylines on their own layers. The coordinates are
+ * the container coordinates, with the origin of the container in its bottom left corner like in the demo.
+ * The coordinates keep the units of the container, the units are written to the $INSUNITS and $MEASUREMENT
+ * header variables. AutoCAD R12 itself ignores them, but the importers of laser and CNC software and later
+ * AutoCAD versions read them and scale the drawing.
+ *
+ * @param container - The container with its shape and obstacles.
+ * @param placements - The placed boxes in container coordinates, e.g. the placed boxes of a packing result.
+ * @param options - The drawing options (optional).
+ * @returns The DXF document.
+ * @remarks
+ * - units: The units of the coordinates (default is "mm"), "unitless" leaves the choice to the importer.
+ * - layerPerPart: Whether every part gets its own layer, "PART_<id>_<instance>" (default is false, all parts are on "PARTS").
+ * - labels: Whether the labels, or the identifiers, of the parts are written as text on the "LABELS" layer (default is false).
+ */
+export function toDxf(container: LayoutContainer, placements: ExportPlacement[], options: DxfOptions = {}): string {
+  const { width, height } = container;
+  const { units = "mm", layerPerPart = false, labels = false } = options;
+  const layers = new Map<string, number>([["CONTAINER", CONTAINER_COLOR]]);
+  const entities: (string | number)[] = [];
+
+  const whole = [{ left: 0, top: 0, right: width, bottom: height }];
+  const shape = container.polygon ? decomposePolygon(container.polygon) : container.shape || whole;
+  for (const outline of outlineOf(shape)) entities.push(...polyline("CONTAINER", outline));
+
+  if (container.obstacles && container.obstacles.length) layers.set("OBSTACLES", OBSTACLE_COLOR);
+  for (const { left, top, width: areaWidth, height: areaHeight } of container.obstacles || []) {
+    entities.push(...polyline("OBSTACLES", corners(left, top, left + areaWidth, top + areaHeight)));
+  }
+
+  placements.forEach((box, index) => {
+    const id = box.id !== undefined ? `${box.id}_${box.instance || 0}` : `P${index}`;
+    const layer = layerPerPart ? `PART_${id}` : "PARTS";
+    layers.set(layer, PART_COLOR);
+    entities.push(...polyline(layer, corners(box.left, box.top, box.right, box.bottom)));
+
+    // A value is a single line of the file, a line break would end it and shift the group codes that follow
+    const text = (box.label !== undefined ? box.label : box.id !== undefined ? String(box.id) : "").replace(/\s*[\r\n]+\s*/g, " ").trim();
+    if (!labels || !text) return;
+    layers.set("LABELS", LABEL_COLOR);
+    const boxWidth = box.right - box.left;
+    const boxHeight = box.bottom - box.top;
+    const x = format(box.left + boxWidth / 2);
+    const y = format((box.top + box.bottom) / 2);
+    // The text fits the part, a character is about as wide as 0.8 of the text height. It is centered on the alignment point
+    const textHeight = format(Math.min(boxHeight / 2, boxWidth / (0.8 * text.length + 0.4)));
+    entities.push(0, "TEXT", 8, "LABELS", 10, x, 20, y, 30, 0, 40, textHeight, 1, text, 72, 1, 11, x, 21, y, 31, 0, 73, 2);
+  });
+
+  const layerEntries: (string | number)[] = [];
+  for (const [name, color] of layers) layerEntries.push(0, "LAYER", 2, name, 70, 0, 62, color, 6, "CONTINUOUS");
+
+  const header = [
+    ...[0, "SECTION", 2, "HEADER"],
+    ...[9, "$ACADVER", 1, "AC1009"],
+    ...[9, "$INSUNITS", 70, UNIT_CODES[units]],
+    ...(units in MEASUREMENT_CODES ? [9, "$MEASUREMENT", 70, MEASUREMENT_CODES[units]] : []),
+    ...[9, "$EXTMIN", 10, 0, 20, 0, 30, 0],
+    ...[9, "$EXTMAX", 10, format(width), 20, format(height), 30, 0],
+    ...[0, "ENDSEC"]
+  ];
+  const tables = [
+    ...[0, "SECTION", 2, "TABLES"],
+    ...[0, "TABLE", 2, "LTYPE", 70, 1],
+    ...[0, "LTYPE", 2, "CONTINUOUS", 70, 0, 3, "Solid line", 72, 65, 73, 0, 40, 0],
+    ...[0, "ENDTAB"],
+    ...[0, "TABLE", 2, "LAYER", 70, layers.size],
+    ...layerEntries,
+    ...[0, "ENDTAB"],
+    ...[0, "ENDSEC"]
+  ];
+  const body = [...[0, "SECTION", 2, "ENTITIES"], ...entities, ...[0, "ENDSEC"], ...[0, "EOF"]];
+
+  return [...header, ...tables, ...body].join("\n") + "\n";
+}
+
+/**
+ * Writes a closed polyline as the group codes and values of a POLYLINE entity with its vertices.
+ */
+function polyline(layer: string, points: Point[]): (string | number)[] {
+  const codes: (string | number)[] = [0, "POLYLINE", 8, layer, 66, 1, 10, 0, 20, 0, 30, 0, 70, 1];
+  for (const { x, y } of points) codes.push(0, "VERTEX", 8, layer, 10, format(x), 20, format(y), 30, 0);
+  codes.push(0, "SEQEND", 8, layer);
+  return codes;
+}
+
+function corners(left: number, top: number, right: number, bottom: number): Point[] {
+  return [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom }
+  ];
+}
+
+/**
+ * Formats a coordinate without an exponent and with at most six decimals, as DXF readers expect.
+ */
+function format(value: number) {
+  return value.toFixed(6).replace(/\.?0+$/, "");
+}
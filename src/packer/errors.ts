@@ -0,0 +1,57 @@
+import { FormatIssue, UnplacedBox } from "./types";
+
+/**
+ * Thrown when a box marked as mandatory is left out of the layout.
+ * The layout of the other boxes stays available, the error lists the mandatory boxes that were left out.
+ */
+export class MandatoryBoxError extends Error {
+  constructor(readonly boxes: UnplacedBox[]) {
+    super(
+      "Mandatory boxes could not be placed: " + boxes.map(box => `${box.id}#${box.instance} (${box.reason})`).join(", ")
+    );
+    this.name = "MandatoryBoxError";
+  }
+}
+
+/**
+ * Throws if any of the boxes left out of a layout is mandatory.
+ *
+ * @param boxes - The unplaced and rejected boxes.
+ * @throws MandatoryBoxError listing the mandatory boxes.
+ */
+export function assertMandatoryPlaced(boxes: UnplacedBox[]) {
+  const missing = boxes.filter(box => box.mandatory);
+  if (missing.length) throw new MandatoryBoxError(missing);
+}
+
+/**
+ * Thrown when an asynchronous packing is cancelled by its abort signal or overtaken by a change of the packer.
+ * The name matches the errors of the platform APIs cancelled by a signal, so callers can check `error.name`.
+ */
+export class AbortError extends Error {
+  constructor(message = "The packing was aborted") {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Throws if the given signal is aborted.
+ *
+ * @param signal - The abort signal (optional).
+ * @throws AbortError if the signal is aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal && signal.aborted) throw new AbortError();
+}
+
+/**
+ * Thrown when a problem or solution document is not valid JSON or does not match its schema.
+ * Every issue names the path of the offending value, e.g. `$.boxes[3].width`.
+ */
+export class FormatError extends Error {
+  constructor(readonly document: string, readonly issues: FormatIssue[]) {
+    super(`Invalid ${document} document:\n` + issues.map(issue => `  ${issue.path}: ${issue.message}`).join("\n"));
+    this.name = "FormatError";
+  }
+}
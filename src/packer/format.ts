@@ -0,0 +1,376 @@
+import BasePacker from "./BasePacker";
+import { createPacker } from "./createPacker";
+import { FormatError } from "./errors";
+import MultiPacker from "./MultiPacker";
+import { validateSchema } from "./schema";
+import {
+  BinResult,
+  FormatIssue,
+  JsonSchema,
+  MultiPackResult,
+  PackProblem,
+  PackResult,
+  PackSolution,
+  Size,
+  SolutionMetrics
+} from "./types";
+
+export const PROBLEM_FORMAT = "rect-packing-problem";
+export const SOLUTION_FORMAT = "rect-packing-solution";
+export const FORMAT_VERSION = 1;
+
+const numberSchema: JsonSchema = { type: "number" };
+const idSchema: JsonSchema = { type: "integer" };
+const nonNegative: JsonSchema = { type: "number", minimum: 0 };
+const anySchema: JsonSchema = { description: "Any JSON value of the caller" };
+
+const sizeProperties = { width: nonNegative, height: nonNegative };
+const rectProperties = { left: numberSchema, top: numberSchema, right: numberSchema, bottom: numberSchema };
+const areaProperties = { left: numberSchema, top: numberSchema, width: nonNegative, height: nonNegative };
+
+const rotationSchema: JsonSchema = { type: "string", enum: ["allowed", "forbidden", "forced"] };
+
+const boxOptionsSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    rotation: rotationSchema,
+    quantity: { type: "integer", minimum: 0 },
+    instance: { type: "integer", minimum: 0 },
+    label: { type: "string" },
+    payload: anySchema,
+    value: numberSchema,
+    mandatory: { type: "boolean" }
+  }
+};
+
+const boxSchema: JsonSchema = {
+  type: "object",
+  properties: { width: numberSchema, height: numberSchema, id: idSchema, options: boxOptionsSchema },
+  required: ["width", "height"]
+};
+
+const identityProperties: { [key: string]: JsonSchema } = {
+  id: idSchema,
+  instance: { type: "integer", minimum: 0 },
+  label: { type: "string" },
+  payload: anySchema,
+  value: numberSchema,
+  mandatory: { type: "boolean" }
+};
+
+const placedSchema: JsonSchema = {
+  type: "object",
+  properties: { ...identityProperties, ...rectProperties, ...sizeProperties, rotated: { type: "boolean" } },
+  required: ["id", "instance", "left", "top", "right", "bottom", "width", "height", "rotated"]
+};
+
+const unplacedSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    ...identityProperties,
+    width: numberSchema,
+    height: numberSchema,
+    reason: { type: "string", enum: ["oversized", "non-positive", "no-space"] }
+  },
+  required: ["id", "instance", "width", "height", "reason"]
+};
+
+/**
+ * The schema of a problem document, a packing job that can be saved, shared and replayed.
+ */
+export const PROBLEM_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    format: { type: "string", const: PROBLEM_FORMAT },
+    version: { type: "integer" },
+    algorithm: { type: "string", enum: ["maxrects", "skyline-bottom-left", "skyline-min-waste", "guillotine"] },
+    container: { type: "object", properties: sizeProperties, required: ["width", "height"] },
+    containers: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: { ...sizeProperties, priority: numberSchema, limit: { type: "integer", minimum: 0 } },
+        required: ["width", "height"]
+      }
+    },
+    shape: {
+      type: "array",
+      minItems: 1,
+      items: { type: "object", properties: rectProperties, required: ["left", "top", "right", "bottom"] }
+    },
+    polygon: {
+      type: "array",
+      minItems: 4,
+      items: { type: "object", properties: { x: numberSchema, y: numberSchema }, required: ["x", "y"] }
+    },
+    obstacles: {
+      type: "array",
+      items: { type: "object", properties: areaProperties, required: ["left", "top", "width", "height"] }
+    },
+    fixedBoxes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { ...areaProperties, id: idSchema, options: boxOptionsSchema },
+        required: ["left", "top", "width", "height"]
+      }
+    },
+    options: {
+      type: "object",
+      properties: {
+        direction: { type: "string", enum: ["none", "left", "top"] },
+        rotation: rotationSchema,
+        heuristic: {
+          type: "string",
+          enum: ["contact-point", "best-short-side-fit", "best-long-side-fit", "best-area-fit", "bottom-left"]
+        },
+        sortOrder: { type: "string", enum: ["width", "area", "perimeter", "max-side", "ratio", "none"] },
+        selection: { type: "string", enum: ["best-fit", "sequential"] },
+        mandatoryCheck: { type: "boolean" },
+        spacing: nonNegative,
+        margins: { description: "A single margin for every side or an object with the margins of some sides" }
+      }
+    },
+    boxes: { type: "array", items: boxSchema }
+  },
+  required: ["format", "version", "boxes"]
+};
+
+/**
+ * The schema of a solution document, the layout found for a problem.
+ */
+export const SOLUTION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    format: { type: "string", const: SOLUTION_FORMAT },
+    version: { type: "integer" },
+    bins: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { ...sizeProperties, placed: { type: "array", items: placedSchema }, fullness: numberSchema },
+        required: ["width", "height", "placed", "fullness"]
+      }
+    },
+    unplaced: { type: "array", items: unplacedSchema },
+    rejected: { type: "array", items: unplacedSchema },
+    metrics: {
+      type: "object",
+      properties: {
+        placed: { type: "integer", minimum: 0 },
+        unplaced: { type: "integer", minimum: 0 },
+        rejected: { type: "integer", minimum: 0 },
+        binsUsed: { type: "integer", minimum: 0 },
+        fullness: numberSchema,
+        value: numberSchema
+      },
+      required: ["placed", "unplaced", "rejected", "binsUsed", "fullness", "value"]
+    }
+  },
+  required: ["format", "version", "bins", "unplaced", "rejected", "metrics"]
+};
+
+/**
+ * Reads a problem document, checking it against the schema.
+ *
+ * @param input - The JSON text or the parsed document.
+ * @returns The problem.
+ * @throws FormatError listing every issue found, each with the path of the offending value.
+ */
+export function readProblem<T = unknown>(input: string | unknown): PackProblem<T> {
+  const problem = parse(input, "problem");
+  const issues = validateDocument(problem, PROBLEM_SCHEMA, PROBLEM_FORMAT);
+  if (!issues.length) issues.push(...checkProblem(problem as PackProblem));
+  if (issues.length) throw new FormatError("problem", issues);
+  return problem as PackProblem<T>;
+}
+
+/**
+ * Writes a problem document.
+ *
+ * @param problem - The problem.
+ * @returns The JSON text, indented by two spaces.
+ * @throws FormatError if the problem does not match the schema, e.g. when it holds a custom heuristic.
+ */
+export function writeProblem<T>(problem: PackProblem<T>) {
+  readProblem(problem);
+  return JSON.stringify(problem, null, 2);
+}
+
+/**
+ * Reads a solution document, checking it against the schema.
+ *
+ * @param input - The JSON text or the parsed document.
+ * @returns The solution.
+ * @throws FormatError listing every issue found, each with the path of the offending value.
+ */
+export function readSolution<T = unknown>(input: string | unknown): PackSolution<T> {
+  const solution = parse(input, "solution");
+  const issues = validateDocument(solution, SOLUTION_SCHEMA, SOLUTION_FORMAT);
+  if (issues.length) throw new FormatError("solution", issues);
+  return solution as PackSolution<T>;
+}
+
+/**
+ * Writes a solution document.
+ *
+ * @param solution - The solution.
+ * @returns The JSON text, indented by two spaces.
+ * @throws FormatError if the solution does not match the schema.
+ */
+export function writeSolution<T>(solution: PackSolution<T>) {
+  readSolution(solution);
+  return JSON.stringify(solution, null, 2);
+}
+
+/**
+ * Creates a packer holding a problem with a single container.
+ *
+ * @param problem - The problem, it must have a single container.
+ * @returns The packer, ready to be packed.
+ */
+export function createProblemPacker<T>(problem: PackProblem<T>): BasePacker<T> {
+  const { container, options, shape, polygon } = problem;
+  const packer = createPacker<T>(problem.algorithm || "maxrects", container.width, container.height);
+  if (options) packer.setOptions(options);
+  if (shape) packer.setShape(shape);
+  if (polygon) packer.setPolygon(polygon);
+  for (const area of problem.obstacles || []) packer.addObstacle(area.left, area.top, area.width, area.height);
+  for (const box of problem.fixedBoxes || []) packer.addFixedBox(box.left, box.top, box.width, box.height, box.id, box.options);
+  for (const box of problem.boxes) packer.addBox(box.width, box.height, box.id, box.options);
+  return packer;
+}
+
+/**
+ * Packs the boxes of a problem. The packing is deterministic, so a problem read back from its document
+ * gives the same solution.
+ *
+ * @param problem - The problem.
+ * @returns The solution.
+ * @throws MandatoryBoxError if a mandatory box is left out and the check is enabled.
+ */
+export function solveProblem<T>(problem: PackProblem<T>): PackSolution<T> {
+  if (problem.container) {
+    const packer = createProblemPacker(problem);
+    packer.pack();
+    return solutionOf(packer.getResult(), problem.container);
+  }
+
+  const packer = new MultiPacker<T>(problem.containers);
+  packer.setAlgorithm(problem.algorithm || "maxrects");
+  if (problem.options) packer.setOptions(problem.options);
+  for (const box of problem.boxes) packer.addBox(box.width, box.height, box.id, box.options);
+  packer.pack();
+  return multiSolutionOf(packer.getResult());
+}
+
+/**
+ * Converts the result of a packing into a single container to a solution.
+ *
+ * @param result - The result of the packing.
+ * @param container - The size of the container.
+ * @returns The solution with a single bin.
+ */
+export function solutionOf<T>(result: PackResult<T>, container: Size): PackSolution<T> {
+  const bin: BinResult<T> = { width: container.width, height: container.height, placed: result.placed, fullness: result.fullness };
+  const { unplaced, rejected } = result;
+  return createSolution([bin], unplaced, rejected, {
+    placed: result.placed.length,
+    unplaced: unplaced.length,
+    rejected: rejected.length,
+    binsUsed: result.placed.length ? 1 : 0,
+    fullness: result.fullness,
+    value: result.value
+  });
+}
+
+/**
+ * Converts the result of a packing into several containers to a solution.
+ *
+ * @param result - The result of the packing.
+ * @returns The solution, its fullness is the mean fullness of the bins weighted by their areas.
+ */
+export function multiSolutionOf<T>(result: MultiPackResult<T>): PackSolution<T> {
+  const { bins, unplaced, rejected } = result;
+  const area = bins.reduce((sum, bin) => sum + bin.width * bin.height, 0);
+  const filled = bins.reduce((sum, bin) => sum + bin.fullness * bin.width * bin.height, 0);
+  return createSolution(bins, unplaced, rejected, {
+    placed: bins.reduce((sum, bin) => sum + bin.placed.length, 0),
+    unplaced: unplaced.length,
+    rejected: rejected.length,
+    binsUsed: result.binsUsed,
+    fullness: area > 0 ? filled / area : 0,
+    value: result.value
+  });
+}
+
+/**
+ * Assembles a solution document of the current version.
+ */
+function createSolution<T>(
+  bins: BinResult<T>[],
+  unplaced: PackSolution<T>["unplaced"],
+  rejected: PackSolution<T>["rejected"],
+  metrics: SolutionMetrics
+): PackSolution<T> {
+  return { format: SOLUTION_FORMAT, version: FORMAT_VERSION, bins, unplaced, rejected, metrics };
+}
+
+/**
+ * Parses the JSON text of a document, a parsed document is returned as is.
+ *
+ * @throws FormatError if the text is not valid JSON.
+ */
+function parse(input: string | unknown, document: string): unknown {
+  if (typeof input !== "string") return input;
+  try {
+    return JSON.parse(input);
+  } catch (error) {
+    throw new FormatError(document, [{ path: "$", message: `is not valid JSON, ${error.message}` }]);
+  }
+}
+
+/**
+ * Checks the format and the version of a document before its schema, so a document of another kind
+ * or of a newer version is reported as such instead of by its differences from the schema.
+ */
+function validateDocument(document: unknown, schema: JsonSchema, format: string): FormatIssue[] {
+  const { format: actual, version } = (document || {}) as { format?: unknown; version?: unknown };
+  if (typeof document === "object" && actual !== undefined && actual !== format) {
+    return [{ path: "$.format", message: `expected ${JSON.stringify(format)}, got ${JSON.stringify(actual)}` }];
+  }
+  if (typeof version === "number" && version > FORMAT_VERSION) {
+    return [{ path: "$.version", message: `version ${version} is not supported, the latest supported version is ${FORMAT_VERSION}` }];
+  }
+  if (typeof version === "number" && version < 1) {
+    return [{ path: "$.version", message: `must be at least 1, got ${version}` }];
+  }
+  return validateSchema(document, schema);
+}
+
+/**
+ * Checks the rules of a problem the schema cannot express.
+ */
+function checkProblem(problem: PackProblem): FormatIssue[] {
+  const issues: FormatIssue[] = [];
+  if (!problem.container === !problem.containers) {
+    issues.push({ path: "$", message: "must have either a container or a list of containers" });
+  }
+  if (problem.containers) {
+    for (const key of ["shape", "polygon", "obstacles", "fixedBoxes"] as const) {
+      if (problem[key]) issues.push({ path: `$.${key}`, message: "is only allowed with a single container" });
+    }
+  }
+  if (problem.shape && problem.polygon) issues.push({ path: "$.polygon", message: "is not allowed together with a shape" });
+
+  const { margins } = problem.options || {};
+  if (margins !== undefined) {
+    const marginSchema: JsonSchema =
+      typeof margins === "object"
+        ? { type: "object", properties: { top: numberSchema, right: numberSchema, bottom: numberSchema, left: numberSchema } }
+        : numberSchema;
+    issues.push(...validateSchema(margins, marginSchema, "$.options.margins"));
+  }
+  return issues;
+}
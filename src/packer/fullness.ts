@@ -0,0 +1,43 @@
+import { Box } from "./Box";
+
+const BOTTOM_RIGHT_MARK = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Calculates the fullness ratio of a container from its free and packed boxes.
+ * Free boxes connected to the far corner of the container are treated as the remaining space,
+ * all other free boxes are treated as waste between the packed boxes.
+ *
+ * @param freeBoxes - The free boxes of the container, the mark of every box is overwritten.
+ * @param packedBoxes - The packed boxes.
+ * @param cornerX - The right coordinate of the far corner, the width of a rectangular container.
+ * @param cornerY - The bottom coordinate of the far corner, the height of a rectangular container.
+ * @returns The fullness ratio, ranging from 0 to 1, where 0 means empty and 1 means fully occupied.
+ */
+export function freeSpaceFullness(freeBoxes: Box[], packedBoxes: Box[], cornerX: number, cornerY: number) {
+  let nextMark = 1;
+
+  // Mark bottom-right corner of full-size free boxes
+  for (const box of freeBoxes) {
+    if (box.right === cornerX && box.bottom === cornerY) box.mark = BOTTOM_RIGHT_MARK;
+    else box.mark = 0;
+  }
+
+  // Mark touched free boxes with the same mark
+  for (let i = 0; i < freeBoxes.length - 1; i++) {
+    const box1 = freeBoxes[i];
+    for (let j = i + 1; j < freeBoxes.length; j++) {
+      const box2 = freeBoxes[j];
+      if (Box.isTouched(box1, box2)) {
+        let mark = Math.max(box1.mark, box2.mark);
+        if (mark === 0) mark = nextMark++;
+        box2.mark = box1.mark = mark;
+      }
+    }
+  }
+
+  const innerSquare = freeBoxes.reduce((accum, box) => (box.mark !== BOTTOM_RIGHT_MARK ? accum + box.square() : accum), 0);
+  const boxSquare = packedBoxes.reduce((accum, box) => accum + box.square(), 0);
+
+  // Calculate the fullness ratio
+  return 1 - innerSquare / (boxSquare + innerSquare);
+}
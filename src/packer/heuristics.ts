@@ -0,0 +1,168 @@
+import { Box } from "./Box";
+import { PlacementContext, PlacementHeuristic, PlacementScorer, SortComparator, SortOrder } from "./types";
+
+/**
+ * Calculates the length of the common interval between two ranges.
+ *
+ * @param startA - The start coordinate of the first range.
+ * @param endA - The end coordinate of the first range.
+ * @param startB - The start coordinate of the second range.
+ * @param endB - The end coordinate of the second range.
+ * @returns The length of the common interval or 0 if there is no overlap.
+ */
+export function commonIntervalLength(startA: number, endA: number, startB: number, endB: number): number {
+  return endA < startB || endB < startA ? 0 : Math.min(endA, endB) - Math.max(startA, startB);
+}
+
+/**
+ * Calculates the length of the edges a candidate position shares with a box.
+ *
+ * @param box - The packed or reserved box.
+ * @returns The length of the shared edges.
+ */
+function contactLength(box: Box, left: number, top: number, right: number, bottom: number) {
+  let length = 0;
+  if (box.left === right || box.right === left) length += commonIntervalLength(box.top, box.bottom, top, bottom);
+  if (box.top === bottom || box.bottom === top) length += commonIntervalLength(box.left, box.right, left, right);
+  return length;
+}
+
+/**
+ * Contact-point rule: the score is the length of the edges shared with the container walls, the packed boxes
+ * and the reserved areas. The packing direction adds a bias towards the chosen side.
+ */
+const contactPoint: PlacementScorer = (left, top, right, bottom, freeBox, context) => {
+  let score = 0;
+
+  if (left === 0 || right === context.containerWidth) score += bottom - top;
+  if (top === 0 || bottom === context.containerHeight) score += right - left;
+
+  for (const box of context.nearBoxes(left, top, right, bottom)) score += contactLength(box, left, top, right, bottom);
+
+  if (context.direction === "top") score += top;
+  if (context.direction === "left") score += left;
+  return score;
+};
+
+/**
+ * Best Short Side Fit: prefers the free box leaving the smallest leftover on its shorter side,
+ * ties are broken by the leftover on the longer side.
+ */
+const bestShortSideFit: PlacementScorer = (left, top, right, bottom, freeBox, context) => {
+  const leftoverX = freeBox.width - (right - left);
+  const leftoverY = freeBox.height - (bottom - top);
+  return -(Math.min(leftoverX, leftoverY) + Math.max(leftoverX, leftoverY) / tieBreakScale(context));
+};
+
+/**
+ * Best Long Side Fit: prefers the free box leaving the smallest leftover on its longer side,
+ * ties are broken by the leftover on the shorter side.
+ */
+const bestLongSideFit: PlacementScorer = (left, top, right, bottom, freeBox, context) => {
+  const leftoverX = freeBox.width - (right - left);
+  const leftoverY = freeBox.height - (bottom - top);
+  return -(Math.max(leftoverX, leftoverY) + Math.min(leftoverX, leftoverY) / tieBreakScale(context));
+};
+
+/**
+ * Best Area Fit: prefers the smallest free box that holds the box,
+ * ties are broken by the leftover on the shorter side.
+ */
+const bestAreaFit: PlacementScorer = (left, top, right, bottom, freeBox, context) => {
+  const width = right - left;
+  const height = bottom - top;
+  const leftover = Math.min(freeBox.width - width, freeBox.height - height);
+  return -(freeBox.square() - width * height + leftover / tieBreakScale(context));
+};
+
+/**
+ * Bottom-Left: prefers the position with the lowest far edge, ties are broken by the lowest left edge.
+ */
+const bottomLeft: PlacementScorer = (left, top, right, bottom, freeBox, context) => {
+  return -(bottom + left / (context.containerWidth + 1));
+};
+
+/**
+ * Returns a divisor that keeps a secondary score below one, so it only decides between equal primary scores.
+ *
+ * @param context - The placement context.
+ * @returns The divisor.
+ */
+function tieBreakScale(context: PlacementContext) {
+  return context.containerWidth + context.containerHeight + 1;
+}
+
+const scorers: { [key in PlacementHeuristic]: PlacementScorer } = {
+  "contact-point": contactPoint,
+  "best-short-side-fit": bestShortSideFit,
+  "best-long-side-fit": bestLongSideFit,
+  "best-area-fit": bestAreaFit,
+  "bottom-left": bottomLeft
+};
+
+const comparators: { [key in SortOrder]: SortComparator } = {
+  width: (a, b) => (a.width === b.width ? b.height - a.height : b.width - a.width),
+  area: (a, b) => b.square() - a.square() || maxSide(b) - maxSide(a),
+  perimeter: (a, b) => b.width + b.height - (a.width + a.height) || maxSide(b) - maxSide(a),
+  "max-side": (a, b) => maxSide(b) - maxSide(a) || minSide(b) - minSide(a),
+  ratio: (a, b) => maxSide(b) / minSide(b) - maxSide(a) / minSide(a) || b.square() - a.square(),
+  none: () => 0
+};
+
+function maxSide(box: Box) {
+  return Math.max(box.width, box.height);
+}
+
+function minSide(box: Box) {
+  return Math.min(box.width, box.height);
+}
+
+/**
+ * Resolves a placement heuristic to its scoring function.
+ *
+ * @param heuristic - The name of a built-in heuristic or a custom scoring function.
+ * @returns The scoring function, higher scores are better.
+ */
+export function resolveScorer(heuristic: PlacementHeuristic | PlacementScorer): PlacementScorer {
+  return typeof heuristic === "function" ? heuristic : scorers[heuristic];
+}
+
+/**
+ * Calculates an upper limit of the score a box of the given size can get anywhere in the container,
+ * assuming the packed boxes and the reserved areas do not overlap each other.
+ *
+ * @param heuristic - The name of a built-in heuristic or a custom scoring function.
+ * @param width - The width of the box including the spacing.
+ * @param height - The height of the box including the spacing.
+ * @param context - The placement context.
+ * @returns The limit, Infinity for a custom scoring function.
+ */
+export function scoreLimit(heuristic: PlacementHeuristic | PlacementScorer, width: number, height: number, context: PlacementContext) {
+  switch (heuristic) {
+    case "contact-point": {
+      // Every edge touches the walls or the boxes along its length at most once
+      let limit = 2 * (width + height);
+      if (context.direction === "top") limit += context.containerHeight - Math.min(width, height);
+      if (context.direction === "left") limit += context.containerWidth - Math.min(width, height);
+      return limit;
+    }
+    case "bottom-left":
+      return -Math.min(width, height);
+    case "best-short-side-fit":
+    case "best-long-side-fit":
+    case "best-area-fit":
+      return 0;
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * Resolves a sort order to its comparator.
+ *
+ * @param order - The name of a built-in sort order or a custom comparator.
+ * @returns The comparator, boxes sorted first are packed first on equal scores.
+ */
+export function resolveComparator(order: SortOrder | SortComparator): SortComparator {
+  return typeof order === "function" ? order : comparators[order];
+}
@@ -0,0 +1,41 @@
+import { BoxOptions } from "./types";
+
+/**
+ * Hands out box identifiers. An identifier given by the caller is kept,
+ * a missing one is replaced by the next number above all identifiers seen so far.
+ */
+export class IdSequence {
+  private next = 0;
+
+  /**
+   * Takes the identifier for a new box.
+   *
+   * @param id - The identifier given by the caller (optional).
+   * @returns The identifier of the box.
+   */
+  take(id?: number) {
+    const result = id === undefined ? this.next : id;
+    this.next = Math.max(this.next, result + 1);
+    return result;
+  }
+
+  /**
+   * Starts the identifiers from 0 again.
+   */
+  reset() {
+    this.next = 0;
+  }
+}
+
+/**
+ * Splits the options of a box added with a quantity into the options of the single instances.
+ * The instances are numbered from the given instance index.
+ *
+ * @param options - The options of the box.
+ * @returns The options of every instance, each with a quantity of 1.
+ */
+export function instancesOf<T>(options: BoxOptions<T>): BoxOptions<T>[] {
+  const quantity = options.quantity === undefined ? 1 : Math.max(0, Math.floor(options.quantity));
+  const first = options.instance || 0;
+  return Array.from({ length: quantity }, (_, index) => ({ ...options, quantity: 1, instance: first + index }));
+}
@@ -0,0 +1,64 @@
+import BasePacker from "./BasePacker";
+import { createPacker } from "./createPacker";
+import { AsyncPackOptions, PackJob, WorkerRequest, WorkerResponse } from "./types";
+
+/**
+ * Creates a packer holding the boxes of a serialized packing job.
+ *
+ * @param job - The container size, the algorithm, the packing options and the boxes.
+ * @returns The packer, ready to be packed.
+ */
+export function createJobPacker<T>(job: PackJob<T>): BasePacker<T> {
+  const packer = createPacker<T>(job.algorithm || "maxrects", job.width, job.height);
+  if (job.options) packer.setOptions(job.options);
+  for (const box of job.boxes) packer.addBox(box.width, box.height, box.id, box.options);
+  return packer;
+}
+
+/**
+ * Packs the boxes of a serialized packing job asynchronously.
+ *
+ * @param job - The packing job.
+ * @param options - The abort signal, the progress callback and the length of a slice.
+ * @param traced - Whether the packing is traced, see `BasePacker.setTracing`.
+ * @returns A promise of the result and the trace of a traced packing,
+ * rejected if the job is invalid, aborted or leaves out a mandatory box.
+ */
+async function runJob<T>(job: PackJob<T>, options: AsyncPackOptions, traced: boolean) {
+  const packer = createJobPacker(job);
+  packer.setTracing(traced);
+  await packer.packAsync(options);
+  return { result: packer.getResult(), trace: packer.getTrace() };
+}
+
+/**
+ * Runs the packing jobs sent to a worker, posting the progress and the result of every job back.
+ * Several jobs may run at once, each is identified by the number given in its request.
+ *
+ * @param post - Sends a message back to the owner of the worker.
+ * @returns The handler of the messages received by the worker.
+ * @remarks
+ * - "pack": Starts a job, the worker answers with "progress" messages and a single "result" or "error" message.
+ *   The "result" message of a job sent with the trace flag also holds the trace of the packing.
+ * - "abort": Cancels a job, the job ends with an "error" message named "AbortError".
+ */
+export function servePackJobs<T>(post: (message: WorkerResponse<T>) => void) {
+  const controllers = new Map<number, AbortController>();
+
+  return (message: WorkerRequest<T>) => {
+    if (message.type === "abort") {
+      const controller = controllers.get(message.id);
+      if (controller) controller.abort();
+      return;
+    }
+
+    const { id, job, sliceTime, trace = false } = message;
+    const controller = new AbortController();
+    controllers.set(id, controller);
+
+    runJob(job, { signal: controller.signal, sliceTime, onProgress: progress => post({ type: "progress", id, progress }) }, trace)
+      .then(({ result, trace }) => post({ type: "result", id, result, trace }))
+      .catch((error: Error) => post({ type: "error", id, name: error.name, message: error.message }))
+      .then(() => controllers.delete(id));
+  };
+}
@@ -0,0 +1,13 @@
+import { Margins } from "./types";
+
+/**
+ * Expands a margin option into the margins of the individual walls.
+ *
+ * @param margins - The same margin for all walls, or margins of some walls.
+ * @param base - The margins of the walls that are not specified (optional, default is no margins).
+ * @returns The margins of all four walls.
+ */
+export function toMargins(margins: number | Partial<Margins>, base: Margins = { top: 0, right: 0, bottom: 0, left: 0 }): Margins {
+  if (typeof margins === "number") return { top: margins, right: margins, bottom: margins, left: margins };
+  return { ...base, ...margins };
+}
@@ -0,0 +1,176 @@
+import { toMargins } from "./margins";
+import MaximalRects from "./MaximalRects";
+import { complementRects, decomposePolygon } from "./shape";
+import { LayoutContainer, LayoutMetrics, MetricsOptions, PackProblem, PackSolution, Rect, Size, WasteRegion } from "./types";
+
+/**
+ * Measures how well a layout uses its container and what is left of the container for reuse.
+ *
+ * @param container - The container with its shape, obstacles and margins.
+ * @param placements - The placed boxes in container coordinates.
+ * @param options - The smallest size of a reusable offcut, in either orientation (optional, default is any size).
+ * @returns The metrics of the layout.
+ * @remarks
+ * - containerArea, utilization: The area inside the shape of the container, and the share of it covered by the boxes.
+ * - boundingBox, boundingUtilization: The bounding box of the placed boxes, and the share of it covered by the boxes.
+ * - waste: The connected free regions inside the bounding box, each as disjoint rectangles, the largest region first.
+ * - largestFreeRect: The largest free rectangle of the container outside the margins, the obstacles and the boxes.
+ * - offcuts: Disjoint free rectangles of at least the minimum size, cut greedily from the largest one down.
+ *
+ * The free space is measured without the spacing, so an offcut next to a box includes the gap left by the spacing.
+ */
+export function measureLayout(container: LayoutContainer, placements: Rect[], options: MetricsOptions = {}): LayoutMetrics {
+  const { width, height } = container;
+  const shape = container.polygon ? decomposePolygon(container.polygon) : container.shape;
+  const outside = shape ? complementRects(shape, width, height) : [];
+  const obstacles: Rect[] = (container.obstacles || []).map(area => ({
+    left: area.left,
+    top: area.top,
+    right: area.left + area.width,
+    bottom: area.top + area.height
+  }));
+  const occupied = [...outside, ...obstacles, ...placements];
+
+  const containerArea = width * height - outside.reduce((sum, rect) => sum + areaOf(rect), 0);
+  const placedArea = placements.reduce((sum, rect) => sum + areaOf(rect), 0);
+  const boundingBox = boundsOf(placements);
+  const boundingArea = boundingBox ? areaOf(boundingBox) : 0;
+  const waste = boundingBox ? wasteRegions(boundingBox, occupied) : [];
+
+  const margins = toMargins(container.margins || 0);
+  const inner = { left: margins.left, top: margins.top, right: width - margins.right, bottom: height - margins.bottom };
+  const cellSize = placements.length ? Math.sqrt(placedArea / placements.length) : Math.max(width, height);
+  const free = new MaximalRects(inner, cellSize);
+  for (const rect of occupied) free.occupy(rect);
+  const largestFreeRect = largestOf(free.getRects());
+
+  const offcuts: Rect[] = [];
+  const minOffcut = options.minOffcut || { width: 0, height: 0 };
+  for (let offcut = largestOf(free.getRects(), minOffcut); offcut; offcut = largestOf(free.getRects(), minOffcut)) {
+    offcuts.push(offcut);
+    free.occupy(offcut);
+  }
+
+  return {
+    containerArea,
+    placedArea,
+    utilization: containerArea > 0 ? placedArea / containerArea : 0,
+    boundingBox,
+    boundingArea,
+    boundingUtilization: boundingArea > 0 ? placedArea / boundingArea : 0,
+    waste,
+    wasteArea: waste.reduce((sum, region) => sum + region.area, 0),
+    largestFreeRect,
+    offcuts
+  };
+}
+
+/**
+ * Measures every bin of a solution as a layout of the container of the problem.
+ *
+ * @param problem - The problem.
+ * @param solution - The solution found for the problem.
+ * @param options - The smallest size of a reusable offcut (optional).
+ * @returns The metrics of the bins in the order of the bins.
+ */
+export function measureSolution<T>(problem: PackProblem<T>, solution: PackSolution<T>, options: MetricsOptions = {}): LayoutMetrics[] {
+  const margins = (problem.options || {}).margins;
+  return solution.bins.map(bin => {
+    const container = problem.container
+      ? { ...problem.container, shape: problem.shape, polygon: problem.polygon, obstacles: problem.obstacles, margins }
+      : { width: bin.width, height: bin.height, margins };
+    return measureLayout(container, bin.placed, options);
+  });
+}
+
+/**
+ * Finds the free space inside a bounding box as disjoint rectangles, grouped into regions of rectangles
+ * sharing an edge. The rectangles are built in horizontal bands, so two rectangles of a region
+ * touch only with the bottom edge of one and the top edge of the other.
+ *
+ * @param bounds - The bounding box.
+ * @param occupied - The occupied rectangles.
+ * @returns The regions, the largest one first.
+ */
+function wasteRegions(bounds: Rect, occupied: Rect[]): WasteRegion[] {
+  const { left, top } = bounds;
+  const shifted = occupied
+    .filter(rect => rect.left < bounds.right && rect.right > left && rect.top < bounds.bottom && rect.bottom > top)
+    .map(rect => ({ left: rect.left - left, top: rect.top - top, right: rect.right - left, bottom: rect.bottom - top }));
+  const rects = complementRects(shifted, bounds.right - left, bounds.bottom - top).map(rect => ({
+    left: rect.left + left,
+    top: rect.top + top,
+    right: rect.right + left,
+    bottom: rect.bottom + top
+  }));
+
+  // Join the rectangles touching the top edge of a rectangle into its region
+  const regionOf = rects.map((_, index) => index);
+  const find = (index: number) => {
+    while (regionOf[index] !== index) index = regionOf[index] = regionOf[regionOf[index]];
+    return index;
+  };
+  const byTop = new Map<number, number[]>();
+  rects.forEach((rect, index) => {
+    const list = byTop.get(rect.top);
+    if (list) list.push(index);
+    else byTop.set(rect.top, [index]);
+  });
+  rects.forEach((rect, index) => {
+    for (const below of byTop.get(rect.bottom) || []) {
+      if (rects[below].left < rect.right && rects[below].right > rect.left) regionOf[find(below)] = find(index);
+    }
+  });
+
+  const regions = new Map<number, Rect[]>();
+  rects.forEach((rect, index) => {
+    const region = regions.get(find(index));
+    if (region) region.push(rect);
+    else regions.set(find(index), [rect]);
+  });
+  return Array.from(regions.values(), region => ({
+    area: region.reduce((sum, rect) => sum + areaOf(rect), 0),
+    bounds: boundsOf(region),
+    rects: region
+  })).sort((a, b) => b.area - a.area);
+}
+
+/**
+ * Finds the rectangle of the largest area, optionally only among the rectangles holding a minimum size.
+ *
+ * @param rects - The rectangles.
+ * @param minSize - The minimum size, in either orientation (optional).
+ * @returns The largest rectangle, or undefined if there is none.
+ */
+function largestOf(rects: Rect[], minSize?: Size): Rect | undefined {
+  let largest: Rect;
+  for (const rect of rects) {
+    if (minSize && !holds(rect, minSize)) continue;
+    if (!largest || areaOf(rect) > areaOf(largest)) largest = rect;
+  }
+  return largest;
+}
+
+function holds(rect: Rect, size: Size) {
+  const width = rect.right - rect.left;
+  const height = rect.bottom - rect.top;
+  return (width >= size.width && height >= size.height) || (width >= size.height && height >= size.width);
+}
+
+function boundsOf(rects: Rect[]): Rect | undefined {
+  if (!rects.length) return undefined;
+  const { left, top, right, bottom } = rects[0];
+  return rects.reduce(
+    (bounds, rect) => ({
+      left: Math.min(bounds.left, rect.left),
+      top: Math.min(bounds.top, rect.top),
+      right: Math.max(bounds.right, rect.right),
+      bottom: Math.max(bounds.bottom, rect.bottom)
+    }),
+    { left, top, right, bottom }
+  );
+}
+
+function areaOf(rect: Rect) {
+  return (rect.right - rect.left) * (rect.bottom - rect.top);
+}
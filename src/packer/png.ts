@@ -0,0 +1,276 @@
+import * as zlib from "zlib";
+import { RgbaImage } from "./types";
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// The samples per pixel of the color types: grayscale, truecolor, indexed, grayscale with alpha, truecolor with alpha
+const CHANNELS: { [colorType: number]: number } = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// The Adam7 passes: the first column and row of every pass and the steps between its columns and rows
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2]
+];
+
+let crcTable: Uint32Array;
+
+/**
+ * Creates a transparent image.
+ *
+ * @param width - The width of the image in pixels.
+ * @param height - The height of the image in pixels.
+ * @returns The image, every pixel black and fully transparent.
+ */
+export function createImage(width: number, height: number): RgbaImage {
+  return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+/**
+ * Decodes a PNG file. Every standard color type and bit depth is read, interlaced or not, and converted
+ * to 8-bit RGBA. Samples of 16 bits are rounded down to 8 bits, the transparent color of a tRNS chunk becomes transparent.
+ *
+ * @param file - The contents of the PNG file.
+ * @returns The image.
+ * @throws Error if the file is not a valid PNG file.
+ */
+export function decodePng(file: Uint8Array): RgbaImage {
+  if (file.length < SIGNATURE.length || SIGNATURE.some((byte, i) => file[i] !== byte)) {
+    throw new Error("Invalid PNG file: missing signature");
+  }
+
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const idat: Uint8Array[] = [];
+  let header: { width: number; height: number; bitDepth: number; colorType: number; interlace: number };
+  let palette: Uint8Array;
+  let transparency: Uint8Array;
+
+  for (let offset = SIGNATURE.length; ; ) {
+    if (offset + 12 > file.length) throw new Error("Invalid PNG file: missing IEND chunk");
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...file.subarray(offset + 4, offset + 8));
+    if (offset + 12 + length > file.length) throw new Error(`Invalid PNG file: truncated ${type} chunk`);
+    const data = file.subarray(offset + 8, offset + 8 + length);
+    if (crc32(file.subarray(offset + 4, offset + 8 + length)) !== view.getUint32(offset + 8 + length)) {
+      throw new Error(`Invalid PNG file: corrupt ${type} chunk`);
+    }
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      const chunk = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      const [bitDepth, colorType, , , interlace] = data.subarray(8, 13);
+      header = { width: chunk.getUint32(0), height: chunk.getUint32(4), bitDepth, colorType, interlace };
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!header) throw new Error("Invalid PNG file: missing IHDR chunk");
+  const { width, height, bitDepth, colorType, interlace } = header;
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth) || (colorType !== 0 && colorType !== 3 && bitDepth < 8)) {
+    throw new Error(`Invalid PNG file: unsupported color type ${colorType} with bit depth ${bitDepth}`);
+  }
+  if (colorType === 3 && !palette) throw new Error("Invalid PNG file: missing PLTE chunk");
+
+  const raw = zlib.inflateSync(concat(idat));
+  const image = createImage(width, height);
+  const pixels = image.data;
+  const bitsPerPixel = channels * bitDepth;
+  const maxSample = (1 << bitDepth) - 1;
+  const toByte = (value: number) => (bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxSample));
+  // The transparent gray level or color of a tRNS chunk, as raw samples
+  const key: number[] = [];
+  if (colorType !== 3 && transparency) {
+    for (let i = 0; i + 1 < transparency.length; i += 2) key.push((transparency[i] << 8) | transparency[i + 1]);
+  }
+  const passes = interlace ? ADAM7 : [[0, 0, 1, 1]];
+  let position = 0;
+
+  for (const [startX, startY, stepX, stepY] of passes) {
+    const columns = Math.ceil((width - startX) / stepX);
+    const rows = Math.ceil((height - startY) / stepY);
+    if (columns <= 0 || rows <= 0) continue;
+
+    const rowLength = Math.ceil((columns * bitsPerPixel) / 8);
+    let line = new Uint8Array(rowLength);
+    for (let row = 0; row < rows; row++) {
+      if (position + 1 + rowLength > raw.length) throw new Error("Invalid PNG file: truncated image data");
+      line = unfilter(raw[position], raw.subarray(position + 1, position + 1 + rowLength), line, Math.ceil(bitsPerPixel / 8));
+      position += 1 + rowLength;
+
+      const sample = (index: number) => {
+        if (bitDepth === 8) return line[index];
+        if (bitDepth === 16) return (line[index * 2] << 8) | line[index * 2 + 1];
+        const bit = index * bitDepth;
+        return (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+      };
+
+      for (let column = 0; column < columns; column++) {
+        const target = ((startY + row * stepY) * width + startX + column * stepX) * 4;
+        const first = column * channels;
+        if (colorType === 3) {
+          const index = sample(first);
+          pixels.set(palette.subarray(index * 3, index * 3 + 3), target);
+          pixels[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        } else if (colorType === 0 || colorType === 4) {
+          const gray = sample(first);
+          pixels.fill(toByte(gray), target, target + 3);
+          pixels[target + 3] = colorType === 4 ? toByte(sample(first + 1)) : key.length >= 1 && gray === key[0] ? 0 : 255;
+        } else {
+          const [red, green, blue] = [sample(first), sample(first + 1), sample(first + 2)];
+          pixels.set([toByte(red), toByte(green), toByte(blue)], target);
+          const isKey = key.length >= 3 && red === key[0] && green === key[1] && blue === key[2];
+          pixels[target + 3] = colorType === 6 ? toByte(sample(first + 3)) : isKey ? 0 : 255;
+        }
+      }
+    }
+  }
+  return image;
+}
+
+/**
+ * Encodes an image as an 8-bit RGBA PNG file without interlacing. Every row is filtered with the filter
+ * giving the smallest sum of absolute differences, the usual heuristic for a good compression.
+ *
+ * @param image - The image.
+ * @returns The contents of the PNG file.
+ */
+export function encodePng(image: RgbaImage): Uint8Array {
+  const { width, height, data } = image;
+  const rowLength = width * 4;
+  const raw = new Uint8Array((rowLength + 1) * height);
+  let previous = new Uint8Array(rowLength);
+
+  for (let row = 0; row < height; row++) {
+    const line = data.subarray(row * rowLength, (row + 1) * rowLength);
+    let best: Uint8Array;
+    let bestType = 0;
+    let bestSum = Infinity;
+    for (let type = 0; type <= 4; type++) {
+      const filtered = filter(type, line, previous, 4);
+      const sum = filtered.reduce((total, byte) => total + (byte < 128 ? byte : 256 - byte), 0);
+      if (sum < bestSum) {
+        best = filtered;
+        bestType = type;
+        bestSum = sum;
+      }
+    }
+    raw[row * (rowLength + 1)] = bestType;
+    raw.set(best, row * (rowLength + 1) + 1);
+    previous = line;
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8);
+
+  const chunks = [chunk("IHDR", header), chunk("IDAT", zlib.deflateSync(raw)), chunk("IEND", new Uint8Array(0))];
+  return concat([Uint8Array.from(SIGNATURE), ...chunks]);
+}
+
+/**
+ * Reverses the filter of a row.
+ *
+ * @param type - The filter type of the row.
+ * @param line - The filtered row.
+ * @param previous - The unfiltered row above, zeros for the first row.
+ * @param pixelLength - The length of a pixel in bytes, at least 1.
+ * @returns The unfiltered row.
+ */
+function unfilter(type: number, line: Uint8Array, previous: Uint8Array, pixelLength: number) {
+  if (type > 4) throw new Error(`Invalid PNG file: unknown filter type ${type}`);
+  const result = new Uint8Array(line.length);
+  for (let i = 0; i < line.length; i++) {
+    const left = i >= pixelLength ? result[i - pixelLength] : 0;
+    const upperLeft = i >= pixelLength ? previous[i - pixelLength] : 0;
+    result[i] = line[i] + predict(type, left, previous[i], upperLeft);
+  }
+  return result;
+}
+
+/**
+ * Filters a row, the inverse of `unfilter`.
+ */
+function filter(type: number, line: Uint8Array, previous: Uint8Array, pixelLength: number) {
+  const result = new Uint8Array(line.length);
+  for (let i = 0; i < line.length; i++) {
+    const left = i >= pixelLength ? line[i - pixelLength] : 0;
+    const upperLeft = i >= pixelLength ? previous[i - pixelLength] : 0;
+    result[i] = line[i] - predict(type, left, previous[i], upperLeft);
+  }
+  return result;
+}
+
+/**
+ * Predicts a byte from its neighbours by the given filter type: none, sub, up, average or Paeth.
+ */
+function predict(type: number, left: number, up: number, upperLeft: number) {
+  switch (type) {
+    case 1:
+      return left;
+    case 2:
+      return up;
+    case 3:
+      return (left + up) >> 1;
+    case 4: {
+      const estimate = left + up - upperLeft;
+      const toLeft = Math.abs(estimate - left);
+      const toUp = Math.abs(estimate - up);
+      const toUpperLeft = Math.abs(estimate - upperLeft);
+      if (toLeft <= toUp && toLeft <= toUpperLeft) return left;
+      return toUp <= toUpperLeft ? up : upperLeft;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Builds a chunk: its length, type, data and the CRC of the type and the data.
+ */
+function chunk(type: string, data: Uint8Array) {
+  const result = new Uint8Array(12 + data.length);
+  const view = new DataView(result.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) result[4 + i] = type.charCodeAt(i);
+  result.set(data, 8);
+  view.setUint32(8 + data.length, crc32(result.subarray(4, 8 + data.length)));
+  return result;
+}
+
+function crc32(bytes: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,15 @@
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32), so a search can be repeated exactly.
+ *
+ * @param seed - The seed, an integer.
+ * @returns A function returning numbers from 0 (inclusive) to 1 (exclusive).
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,66 @@
+import { Box } from "./Box";
+import { BoxIdentity, BoxOptions, PlacedBox, RejectReason, Size, UnplacedBox } from "./types";
+
+/**
+ * Restores the size of a box in the orientation it was added with.
+ *
+ * @param box - The normalized box.
+ * @returns The width and height as given by the caller.
+ */
+export function sourceSize(box: Box): Size {
+  return box.rotated ? { width: box.height, height: box.width } : { width: box.width, height: box.height };
+}
+
+/**
+ * Collects the fields that identify a box in the results.
+ *
+ * @param box - The box.
+ * @returns The identifier, the instance index, the label, the payload, the value and the mandatory flag of the box.
+ */
+export function identityOf<T>(box: Box): BoxIdentity<T> {
+  const { id, instance, label, value, mandatory } = box;
+  return { id, instance, label, payload: box.payload as T, value, mandatory };
+}
+
+/**
+ * Collects the options a box was added with, so the box can be added to another packer as a single instance.
+ *
+ * @param box - The box.
+ * @returns The options of the box.
+ */
+export function optionsOf<T>(box: Box): BoxOptions<T> {
+  const { rotation, instance, label, value, mandatory } = box;
+  return { rotation, quantity: 1, instance, label, payload: box.payload as T, value, mandatory };
+}
+
+/**
+ * Sums up the values of the placed boxes.
+ *
+ * @param boxes - The placed boxes.
+ * @returns The total value, boxes without a value count as 0.
+ */
+export function totalValue(boxes: BoxIdentity[]) {
+  return boxes.reduce((sum, box) => sum + (box.value || 0), 0);
+}
+
+/**
+ * Converts a packed box into a plain placement record.
+ *
+ * @param box - The packed box.
+ * @returns The placement with the identity, coordinates, placed size and rotation flag.
+ */
+export function toPlacedBox<T>(box: Box): PlacedBox<T> {
+  const { left, top, right, bottom, width, height, rotated } = box;
+  return { ...identityOf<T>(box), left, top, right, bottom, width, height, rotated };
+}
+
+/**
+ * Converts a box that was left out into a plain record with the reason.
+ *
+ * @param box - The box that was not placed.
+ * @param reason - Why the box was not placed.
+ * @returns The record with the size as given by the caller.
+ */
+export function toUnplacedBox<T>(box: Box, reason: RejectReason): UnplacedBox<T> {
+  return { ...identityOf<T>(box), ...sourceSize(box), reason };
+}
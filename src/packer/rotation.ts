@@ -0,0 +1,29 @@
+import { Box } from "./Box";
+import { RotationPolicy } from "./types";
+
+/**
+ * Checks whether a box may be placed in an orientation under the given rotation policy.
+ *
+ * @param policy - The rotation policy of the box.
+ * @param rotated - Whether the orientation is turned relative to the size the box was added with.
+ * @returns True if the orientation is allowed.
+ */
+export function isOrientationAllowed(policy: RotationPolicy, rotated: boolean) {
+  return policy === "allowed" || (policy === "forced") === rotated;
+}
+
+/**
+ * Checks whether a box fits into an empty container in at least one allowed orientation.
+ *
+ * @param box - The normalized box.
+ * @param policy - The rotation policy of the box.
+ * @param width - The width of the container.
+ * @param height - The height of the container.
+ * @returns True if the box fits.
+ */
+export function fitsContainer(box: Box, policy: RotationPolicy, width: number, height: number) {
+  return (
+    (isOrientationAllowed(policy, box.rotated) && box.width <= width && box.height <= height) ||
+    (isOrientationAllowed(policy, !box.rotated) && box.height <= width && box.width <= height)
+  );
+}
@@ -0,0 +1,97 @@
+import { FormatIssue, JsonSchema } from "./types";
+
+/**
+ * Checks a value against a schema written in a subset of JSON Schema: the types, the properties of objects,
+ * the items of arrays, constants, enumerations and lower bounds of numbers.
+ * Unlike JSON Schema, properties not listed in the schema are reported unless `additionalProperties` is true.
+ *
+ * @param value - The value to be checked.
+ * @param schema - The schema of the value.
+ * @param path - The path of the value in the document (optional, default is the root "$").
+ * @returns The issues found, empty if the value matches the schema.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = "$"): FormatIssue[] {
+  const issues: FormatIssue[] = [];
+  const issue = (message: string) => issues.push({ path, message });
+
+  if (schema.type && !hasType(value, schema.type)) {
+    issue(`expected ${article(schema.type)}, got ${describe(value)}`);
+    return issues;
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    issue(`expected ${JSON.stringify(schema.const)}, got ${describe(value)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    issue(`expected one of ${schema.enum.map(item => JSON.stringify(item)).join(", ")}, got ${describe(value)}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) issue(`must be at least ${schema.minimum}, got ${value}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issue(`must be greater than ${schema.exclusiveMinimum}, got ${value}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issue(`must have at least ${schema.minItems} item${schema.minItems === 1 ? "" : "s"}`);
+    }
+    if (schema.items) value.forEach((item, index) => issues.push(...validateSchema(item, schema.items, `${path}[${index}]`)));
+  } else if (schema.type === "object") {
+    const object = value as { [key: string]: unknown };
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) issues.push({ path: propertyPath(path, key), message: "is required" });
+    }
+    for (const key of Object.keys(object)) {
+      if (properties[key]) {
+        if (object[key] !== undefined) issues.push(...validateSchema(object[key], properties[key], propertyPath(path, key)));
+      } else if (!schema.additionalProperties) {
+        issues.push({ path: propertyPath(path, key), message: "is not allowed" });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks whether a value has the given JSON type. Numbers must be finite, as JSON cannot hold other numbers.
+ */
+function hasType(value: unknown, type: JsonSchema["type"]) {
+  switch (type) {
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Names a value for an error message, showing short values as they are.
+ */
+function describe(value: unknown) {
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  if (typeof value === "number" && !Number.isFinite(value)) return String(value);
+  const text = JSON.stringify(value);
+  return text === undefined || text.length > 40 ? article(typeof value) : text;
+}
+
+function article(type: string) {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Appends a property to a path, quoting the names that are not identifiers.
+ */
+function propertyPath(path: string, key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
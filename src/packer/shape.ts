@@ -0,0 +1,184 @@
+import { Point, Rect } from "./types";
+
+type Interval = { start: number; end: number };
+
+/**
+ * Splits a rectilinear polygon into disjoint rectangles. The polygon is cut into horizontal bands
+ * at the levels of its vertices, the inside of every band is found by the even-odd rule.
+ *
+ * @param points - The vertices of the polygon in order, clockwise or counterclockwise.
+ * @returns The rectangles covering the inside of the polygon.
+ */
+export function decomposePolygon(points: Point[]): Rect[] {
+  const edges: (Interval & { x: number })[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    if (a.x !== b.x && a.y !== b.y) {
+      throw new Error(`The polygon edge from (${a.x}, ${a.y}) to (${b.x}, ${b.y}) is not horizontal or vertical`);
+    }
+    if (a.x === b.x && a.y !== b.y) edges.push({ x: a.x, start: Math.min(a.y, b.y), end: Math.max(a.y, b.y) });
+  }
+
+  return mapBands(
+    points.map(point => point.y),
+    (top, bottom) => {
+      const crossings = edges
+        .filter(edge => edge.start <= top && edge.end >= bottom)
+        .map(edge => edge.x)
+        .sort((a, b) => a - b);
+      const inside: Interval[] = [];
+      for (let i = 0; i + 1 < crossings.length; i += 2) inside.push({ start: crossings[i], end: crossings[i + 1] });
+      return inside;
+    }
+  );
+}
+
+/**
+ * Finds the areas of a bounding rectangle that are not covered by a union of rectangles.
+ *
+ * @param rects - The rectangles of the union.
+ * @param width - The width of the bounding rectangle, which starts at the origin.
+ * @param height - The height of the bounding rectangle.
+ * @returns Disjoint rectangles covering the areas outside of the union.
+ */
+export function complementRects(rects: Rect[], width: number, height: number): Rect[] {
+  const levels = [0, height, ...rects.map(rect => rect.top), ...rects.map(rect => rect.bottom)];
+
+  return mapBands(
+    levels.filter(level => level >= 0 && level <= height),
+    (top, bottom) => {
+      const covered = rects
+        .filter(rect => rect.top <= top && rect.bottom >= bottom)
+        .sort((a, b) => a.left - b.left);
+      const outside: Interval[] = [];
+      let x = 0;
+      for (const rect of covered) {
+        if (rect.left > x) outside.push({ start: x, end: Math.min(rect.left, width) });
+        x = Math.max(x, rect.right);
+      }
+      if (x < width) outside.push({ start: x, end: width });
+      return outside;
+    }
+  );
+}
+
+/**
+ * Traces the outline of a union of rectangles, e.g. of a container shape, as closed rectilinear polygons.
+ *
+ * @param rects - The rectangles of the union, they may overlap or touch.
+ * @returns The outlines, each as its vertices in order, clockwise in coordinates with the vertical axis pointing down.
+ * The outer boundaries and the boundaries of holes are separate outlines.
+ */
+export function outlineOf(rects: Rect[]): Point[][] {
+  // Edges are oriented so that the inside of the union lies to their right
+  const edges: [Point, Point][] = [];
+  for (const { level: y, start, end, insideAfter } of boundaryIntervals(rects)) {
+    edges.push(insideAfter ? [{ x: start, y }, { x: end, y }] : [{ x: end, y }, { x: start, y }]);
+  }
+  const transposed = rects.map(rect => ({ left: rect.top, top: rect.left, right: rect.bottom, bottom: rect.right }));
+  for (const { level: x, start, end, insideAfter } of boundaryIntervals(transposed)) {
+    edges.push(insideAfter ? [{ x, y: end }, { x, y: start }] : [{ x, y: start }, { x, y: end }]);
+  }
+
+  const outgoing = new Map<string, [Point, Point][]>();
+  for (const edge of edges) {
+    const key = `${edge[0].x}:${edge[0].y}`;
+    const list = outgoing.get(key);
+    if (list) list.push(edge);
+    else outgoing.set(key, [edge]);
+  }
+
+  // Every vertex has as many edges coming in as going out, so a walk can only end where it started
+  const used = new Set<[Point, Point]>();
+  const outlines: Point[][] = [];
+  for (const first of edges) {
+    if (used.has(first)) continue;
+    const points: Point[] = [];
+    for (let edge = first; edge; ) {
+      used.add(edge);
+      points.push(edge[0]);
+      const end = edge[1];
+      edge = (outgoing.get(`${end.x}:${end.y}`) || []).find(next => !used.has(next));
+    }
+    const count = points.length;
+    outlines.push(points.filter((point, i) => !isCollinear(points[(i + count - 1) % count], point, points[(i + 1) % count])));
+  }
+  return outlines;
+}
+
+/**
+ * Finds the horizontal parts of the boundary of a union of rectangles. Every level is compared with the bands
+ * right above and right below it, a boundary lies where exactly one of the bands is covered.
+ *
+ * @param rects - The rectangles of the union.
+ * @returns The boundary intervals, each with whether the union lies below it.
+ */
+function boundaryIntervals(rects: Rect[]): (Interval & { level: number; insideAfter: boolean })[] {
+  const levels = Array.from(new Set([...rects.map(rect => rect.top), ...rects.map(rect => rect.bottom)])).sort((a, b) => a - b);
+  const boundary: (Interval & { level: number; insideAfter: boolean })[] = [];
+  let before: Interval[] = [];
+
+  levels.forEach((level, i) => {
+    const after = i + 1 < levels.length ? coveredIntervals(rects, level, levels[i + 1]) : [];
+    const ends = [...before, ...after].reduce((list, { start, end }) => list.concat(start, end), [] as number[]);
+    const cuts = Array.from(new Set(ends)).sort((a, b) => a - b);
+    for (let j = 0; j + 1 < cuts.length; j++) {
+      const middle = (cuts[j] + cuts[j + 1]) / 2;
+      const isBefore = before.some(interval => interval.start < middle && interval.end > middle);
+      const isAfter = after.some(interval => interval.start < middle && interval.end > middle);
+      if (isBefore !== isAfter) boundary.push({ level, start: cuts[j], end: cuts[j + 1], insideAfter: isAfter });
+    }
+    before = after;
+  });
+  return boundary;
+}
+
+/**
+ * Finds the horizontal intervals covered by the rectangles spanning a band, joining the overlapping ones.
+ */
+function coveredIntervals(rects: Rect[], top: number, bottom: number): Interval[] {
+  const covered: Interval[] = [];
+  const spanning = rects.filter(rect => rect.top <= top && rect.bottom >= bottom && rect.right > rect.left);
+  for (const rect of spanning.sort((a, b) => a.left - b.left)) {
+    const last = covered[covered.length - 1];
+    if (last && rect.left <= last.end) last.end = Math.max(last.end, rect.right);
+    else covered.push({ start: rect.left, end: rect.right });
+  }
+  return covered;
+}
+
+function isCollinear(a: Point, b: Point, c: Point) {
+  return (a.x === b.x && b.x === c.x) || (a.y === b.y && b.y === c.y);
+}
+
+/**
+ * Builds rectangles from the horizontal intervals of every band between neighbouring levels,
+ * joining the rectangles of neighbouring bands with the same interval.
+ *
+ * @param levels - The vertical coordinates that bound the bands, in any order and with repeats.
+ * @param intervalsOf - Returns the horizontal intervals of a band.
+ * @returns The rectangles ordered by their top edges.
+ */
+function mapBands(levels: number[], intervalsOf: (top: number, bottom: number) => Interval[]): Rect[] {
+  const sorted = Array.from(new Set(levels)).sort((a, b) => a - b);
+  const rects: Rect[] = [];
+  const open = new Map<string, Rect>();
+
+  for (let i = 0; i + 1 < sorted.length; i++) {
+    const top = sorted[i];
+    const bottom = sorted[i + 1];
+    for (const { start, end } of intervalsOf(top, bottom)) {
+      const key = `${start}:${end}`;
+      const rect = open.get(key);
+      if (rect && rect.bottom === top) {
+        rect.bottom = bottom;
+      } else {
+        const next = { left: start, top, right: end, bottom };
+        rects.push(next);
+        open.set(key, next);
+      }
+    }
+  }
+  return rects;
+}
@@ -0,0 +1,78 @@
+import { createColorMapGenerator, sizeKeyOf } from "./colors";
+import { measureLayout } from "./metrics";
+import { createRandom } from "./random";
+import { decomposePolygon, outlineOf } from "./shape";
+import { ExportPlacement, LayoutContainer, Rect, SvgOptions } from "./types";
+
+/**
+ * Draws a layout as an SVG image, e.g. a printable preview of a work order. The layout is drawn the way
+ * the demo draws it, with the origin of the container in its bottom left corner.
+ *
+ * @param container - The container with its shape and obstacles.
+ * @param placements - The placed boxes in container coordinates, e.g. the placed boxes of a packing result.
+ * @param options - The drawing options (optional).
+ * @returns The SVG document.
+ * @remarks
+ * - scale: The size of a unit of the layout in pixels (default is 1), the lines are one pixel wide at any scale.
+ * - labels: Whether the boxes show their label, or their identifier if they have no label (default is true).
+ * - freeSpace: Whether the offcuts of the layout, see `measureLayout`, are drawn over the free space (default is false).
+ * - minOffcut: The smallest offcut drawn, in either orientation (default is any size).
+ * - colorOf: Returns the color of a size key such as "20x50" (default gives every size its own color, the same on every run).
+ */
+export function toSvg(container: LayoutContainer, placements: ExportPlacement[], options: SvgOptions = {}): string {
+  const { width, height } = container;
+  const { scale = 1, labels = true, freeSpace = false } = options;
+  const colorOf = options.colorOf || createColorMapGenerator(createRandom(1));
+  const line = `stroke="#000000" stroke-width="1" vector-effect="non-scaling-stroke"`;
+  const rectOf = (rect: Rect) =>
+    `x="${rect.left}" y="${height - rect.bottom}" width="${rect.right - rect.left}" height="${rect.bottom - rect.top}"`;
+
+  const whole = [{ left: 0, top: 0, right: width, bottom: height }];
+  const shape = container.polygon ? decomposePolygon(container.polygon) : container.shape || whole;
+  const path = outlineOf(shape)
+    .map(points => "M" + points.map(({ x, y }) => `${x} ${height - y}`).join("L") + "Z")
+    .join("");
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width * scale}" height="${height * scale}" viewBox="0 0 ${width} ${height}">`,
+    `  <path class="container" d="${path}" fill="#FFFFFF" fill-rule="evenodd" ${line}/>`
+  ];
+
+  for (const { left, top, width: areaWidth, height: areaHeight } of container.obstacles || []) {
+    const obstacle = { left, top, right: left + areaWidth, bottom: top + areaHeight };
+    svg.push(`  <rect class="obstacle" ${rectOf(obstacle)} fill="#808080" ${line}/>`);
+  }
+
+  for (const box of placements) {
+    const boxWidth = box.right - box.left;
+    const boxHeight = box.bottom - box.top;
+    svg.push(`  <rect class="box" ${rectOf(box)} fill="${colorOf(sizeKeyOf(boxWidth, boxHeight))}" ${line}/>`);
+    if (!labels) continue;
+
+    const text = box.label !== undefined ? box.label : box.id !== undefined ? String(box.id) : "";
+    if (!text) continue;
+    // The label fits the box, a character is about as wide as 0.6 of the font size
+    const fontSize = Math.min(boxHeight / 2, boxWidth / (0.6 * text.length + 0.4));
+    const x = box.left + boxWidth / 2;
+    const y = height - (box.top + box.bottom) / 2;
+    const font = `font-family="sans-serif" font-size="${round(fontSize)}" text-anchor="middle" dominant-baseline="central"`;
+    svg.push(`  <text class="label" x="${x}" y="${y}" ${font}>${escapeXml(text)}</text>`);
+  }
+
+  if (freeSpace) {
+    const style = `fill="#00A000" fill-opacity="0.2" stroke="#00A000" stroke-dasharray="4 2" stroke-width="1" vector-effect="non-scaling-stroke"`;
+    for (const offcut of measureLayout(container, placements, { minOffcut: options.minOffcut }).offcuts) {
+      svg.push(`  <rect class="free" ${rectOf(offcut)} ${style}/>`);
+    }
+  }
+
+  svg.push("</svg>");
+  return svg.join("\n") + "\n";
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000;
+}
@@ -1,3 +1,231 @@
+import { Box } from "./Box";
+
 export type Size = { width: number; height: number };
+export type Point = { x: number; y: number };
+export type Rect = { left: number; top: number; right: number; bottom: number };
 export type RectCoord = { top: number; left: number; right: number; bottom: number; initialOrder: number };
 export type PackDirection = "none" | "left" | "top";
+export type RotationPolicy = "allowed" | "forbidden" | "forced";
+export type BoxOptions<T = unknown> = {
+  rotation?: RotationPolicy;
+  quantity?: number;
+  instance?: number;
+  label?: string;
+  payload?: T;
+  value?: number;
+  mandatory?: boolean;
+};
+export type PlacementHeuristic = "contact-point" | "best-short-side-fit" | "best-long-side-fit" | "best-area-fit" | "bottom-left";
+export type PlacementContext = {
+  containerWidth: number;
+  containerHeight: number;
+  packedBoxes: Box[];
+  reservedBoxes: Box[];
+  direction: PackDirection;
+  nearBoxes: (left: number, top: number, right: number, bottom: number) => Box[];
+};
+export type PlacementScorer = (left: number, top: number, right: number, bottom: number, freeBox: Box, context: PlacementContext) => number;
+export type SortOrder = "width" | "area" | "perimeter" | "max-side" | "ratio" | "none";
+export type SelectionMode = "best-fit" | "sequential";
+export type SortComparator = (a: Box, b: Box) => number;
+export type Margins = { top: number; right: number; bottom: number; left: number };
+export type PackerOptions = {
+  direction?: PackDirection;
+  rotation?: RotationPolicy;
+  heuristic?: PlacementHeuristic | PlacementScorer;
+  sortOrder?: SortOrder | SortComparator;
+  selection?: SelectionMode;
+  mandatoryCheck?: boolean;
+  spacing?: number;
+  margins?: number | Partial<Margins>;
+};
+export type ContainerSpec = Size & { priority?: number; limit?: number };
+export type BinLayout = { width: number; height: number; boxes: Box[]; fullness: number };
+export type RejectReason = "oversized" | "non-positive" | "no-space";
+export type BoxIdentity<T = unknown> = {
+  id: number;
+  instance: number;
+  label?: string;
+  payload?: T;
+  value?: number;
+  mandatory?: boolean;
+};
+export type PlacedBox<T = unknown> = BoxIdentity<T> & Rect & Size & { rotated: boolean };
+export type UnplacedBox<T = unknown> = BoxIdentity<T> & Size & { reason: RejectReason };
+export type PackResult<T = unknown> = {
+  placed: PlacedBox<T>[];
+  unplaced: UnplacedBox<T>[];
+  rejected: UnplacedBox<T>[];
+  fullness: number;
+  value: number;
+};
+export type StripResult<T = unknown> = PackResult<T> & { usedLength: number };
+export type SizingObjective = "area" | "max-side";
+export type SizingOptions = {
+  objective?: SizingObjective;
+  powerOfTwo?: boolean;
+  square?: boolean;
+  aspectRatio?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  widthSteps?: number;
+};
+export type SizedResult<T = unknown> = PackResult<T> & Size;
+export type BinResult<T = unknown> = Size & { placed: PlacedBox<T>[]; fullness: number };
+export type MultiPackResult<T = unknown> = {
+  bins: BinResult<T>[];
+  binsUsed: number;
+  unplaced: UnplacedBox<T>[];
+  rejected: UnplacedBox<T>[];
+  value: number;
+};
+export type PackProgress = { placed: number; total: number; fullness: number };
+export type AsyncPackOptions = { signal?: AbortSignal; onProgress?: (progress: PackProgress) => void; sliceTime?: number };
+export type BoxSpec<T = unknown> = Size & { id?: number; options?: BoxOptions<T> };
+export type PackJob<T = unknown> = Size & { algorithm?: PackAlgorithm; options?: PackerOptions; boxes: BoxSpec<T>[] };
+export type WorkerRequest<T = unknown> =
+  | { type: "pack"; id: number; job: PackJob<T>; sliceTime?: number; trace?: boolean }
+  | { type: "abort"; id: number };
+export type WorkerResponse<T = unknown> =
+  | { type: "progress"; id: number; progress: PackProgress }
+  | { type: "result"; id: number; result: PackResult<T>; trace?: PackTrace }
+  | { type: "error"; id: number; name: string; message: string };
+export type SerializableOptions = Omit<PackerOptions, "heuristic" | "sortOrder"> & {
+  heuristic?: PlacementHeuristic;
+  sortOrder?: SortOrder;
+};
+export type AreaSpec = { left: number; top: number; width: number; height: number };
+export type FixedBoxSpec<T = unknown> = AreaSpec & { id?: number; options?: BoxOptions<T> };
+export type PackProblem<T = unknown> = {
+  format: "rect-packing-problem";
+  version: number;
+  algorithm?: PackAlgorithm;
+  container?: Size;
+  containers?: ContainerSpec[];
+  shape?: Rect[];
+  polygon?: Point[];
+  obstacles?: AreaSpec[];
+  fixedBoxes?: FixedBoxSpec<T>[];
+  options?: SerializableOptions;
+  boxes: BoxSpec<T>[];
+};
+export type SolutionMetrics = { placed: number; unplaced: number; rejected: number; binsUsed: number; fullness: number; value: number };
+export type PackSolution<T = unknown> = {
+  format: "rect-packing-solution";
+  version: number;
+  bins: BinResult<T>[];
+  unplaced: UnplacedBox<T>[];
+  rejected: UnplacedBox<T>[];
+  metrics: SolutionMetrics;
+};
+export type FormatIssue = { path: string; message: string };
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: string[];
+  const?: string;
+  minimum?: number;
+  exclusiveMinimum?: number;
+};
+export type LayoutContainer = Size & {
+  shape?: Rect[];
+  polygon?: Point[];
+  obstacles?: AreaSpec[];
+  spacing?: number;
+  margins?: number | Partial<Margins>;
+  rotation?: RotationPolicy;
+};
+export type LayoutPlacement = Rect & { id?: number; instance?: number };
+export type LayoutExpectation<T = unknown> = { boxes?: BoxSpec<T>[]; complete?: boolean };
+export type ViolationKind =
+  | "overlap"
+  | "spacing"
+  | "out-of-bounds"
+  | "obstacle"
+  | "size"
+  | "rotation"
+  | "duplicate-id"
+  | "missing-id"
+  | "unknown-id"
+  | "missing-box";
+export type LayoutViolation = { kind: ViolationKind; placements: number[]; bin?: number; message: string };
+export type WasteRegion = { area: number; bounds: Rect; rects: Rect[] };
+export type MetricsOptions = { minOffcut?: Size };
+export type LayoutMetrics = {
+  containerArea: number;
+  placedArea: number;
+  utilization: number;
+  boundingBox: Rect | undefined;
+  boundingArea: number;
+  boundingUtilization: number;
+  waste: WasteRegion[];
+  wasteArea: number;
+  largestFreeRect: Rect | undefined;
+  offcuts: Rect[];
+};
+export type BoxListFormat = "json" | "csv";
+export type ExportPlacement = LayoutPlacement & { label?: string };
+export type SvgOptions = { scale?: number; labels?: boolean; freeSpace?: boolean; minOffcut?: Size; colorOf?: (sizeKey: string) => string };
+export type DxfUnits = "unitless" | "in" | "ft" | "mm" | "cm" | "m";
+export type DxfOptions = { units?: DxfUnits; layerPerPart?: boolean; labels?: boolean };
+export type RgbaImage = Size & { data: Uint8Array };
+export type AtlasSprite = { name: string; image: RgbaImage };
+export type AtlasOptions = SizingOptions & {
+  algorithm?: PackAlgorithm;
+  padding?: number;
+  border?: number;
+  rotation?: RotationPolicy;
+  trim?: boolean;
+};
+export type FrameRect = { x: number; y: number; w: number; h: number };
+export type AtlasFrame = {
+  frame: FrameRect;
+  rotated: boolean;
+  trimmed: boolean;
+  spriteSourceSize: FrameRect;
+  sourceSize: { w: number; h: number };
+};
+export type Atlas = { image: RgbaImage; frames: { [name: string]: AtlasFrame }; unplaced: string[] };
+export type TexturePackerHash = {
+  frames: { [name: string]: AtlasFrame };
+  meta: { app: string; version: string; image: string; format: "RGBA8888"; size: { w: number; h: number }; scale: string };
+};
+export type OptimizeObjective = "fullness" | "placed" | "height" | "value";
+export type SearchStrategy = "local-search" | "genetic";
+export type OptimizeProgress = { iteration: number; elapsed: number; score: number; bestScore: number };
+export type SearchOptions = {
+  objective?: OptimizeObjective;
+  strategy?: SearchStrategy;
+  sortOrders?: SortOrder[];
+  iterations?: number;
+  timeLimit?: number;
+  seed?: number;
+  restartAfter?: number;
+  populationSize?: number;
+  onProgress?: (progress: OptimizeProgress) => void;
+};
+export type OptimizedResult<T = unknown> = PackResult<T> & { score: number; iterations: number; elapsed: number };
+export type PackAlgorithm = "maxrects" | "skyline-bottom-left" | "skyline-min-waste" | "guillotine";
+export type SkylineRule = "bottom-left" | "min-waste";
+export type GuillotineSplit = "shorter-leftover-axis" | "longer-leftover-axis" | "shorter-axis" | "longer-axis" | "min-area" | "max-area";
+export type CutAxis = "horizontal" | "vertical";
+export type Cut = { axis: CutAxis; position: number; piece: Rect; stage: number; depth: number };
+export type TraceCandidate = Rect & { id: number; instance: number; rotated: boolean; score: number };
+export type TraceStep = { candidates: TraceCandidate[]; chosen?: TraceCandidate; freeBefore: Rect[]; freeAfter: Rect[] };
+export type PackTrace = Size & { steps: TraceStep[] };
+
+export interface RectPacker<T = unknown> {
+  readonly fullness: number;
+  addBox(width: number, height: number, id?: number, options?: BoxOptions<T>): number;
+  removeBoxes(id: number, instance?: number): number;
+  pack(): Box[];
+  resizeContainer(width: number, height: number): void;
+  setOptions(options: PackerOptions): void;
+  getResult(): PackResult<T>;
+  clear(): void;
+}
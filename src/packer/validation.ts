@@ -0,0 +1,270 @@
+import { IdSequence, instancesOf } from "./input";
+import { toMargins } from "./margins";
+import { isOrientationAllowed } from "./rotation";
+import { complementRects, decomposePolygon } from "./shape";
+import {
+  BoxSpec,
+  LayoutContainer,
+  LayoutExpectation,
+  LayoutPlacement,
+  LayoutViolation,
+  PackProblem,
+  PackSolution,
+  Rect,
+  RotationPolicy,
+  Size
+} from "./types";
+
+type ExpectedBox = Size & { rotation?: RotationPolicy; mandatory?: boolean };
+
+/**
+ * Checks a layout, e.g. one edited by hand or made by another program, and reports every violation found.
+ *
+ * @param container - The container with its shape, obstacles, spacing, margins and default rotation policy.
+ * @param placements - The boxes of the layout in container coordinates, e.g. the placed boxes of a packing result.
+ * @param expected - The boxes that may be placed, and whether all of them must be placed (optional).
+ * @returns The violations, empty if the layout is valid.
+ * @remarks
+ * - "overlap", "spacing": Two boxes overlap or are closer to each other than the spacing.
+ * - "out-of-bounds": A box lies outside the container, in its margins or outside its shape.
+ * - "obstacle": A box overlaps an obstacle, a box closer to an obstacle than the spacing is a "spacing" violation.
+ * - "size", "rotation": A box has a size other than the listed one, or an orientation its rotation policy forbids.
+ * - "duplicate-id", "missing-id", "unknown-id": A box is placed twice, has no identifier or is not listed.
+ * - "missing-box": A listed box is not placed, reported for mandatory boxes or for all boxes if the layout must be complete.
+ *
+ * The identity, the size and the rotation of the boxes are only checked against the listed boxes.
+ */
+export function validateLayout<T>(
+  container: LayoutContainer,
+  placements: LayoutPlacement[],
+  expected: LayoutExpectation<T> = {}
+): LayoutViolation[] {
+  return [
+    ...geometryViolations(container, placements),
+    ...identityViolations([placements], expectedBoxes(expected.boxes), container.rotation, expected.complete)
+  ];
+}
+
+/**
+ * Checks a solution against the problem it was found for. Every bin is checked as a layout of its container,
+ * the identifiers are checked across all bins.
+ *
+ * @param problem - The problem.
+ * @param solution - The solution.
+ * @returns The violations, each with the index of its bin, empty if the solution is valid.
+ */
+export function validateSolution<T>(problem: PackProblem<T>, solution: PackSolution<T>): LayoutViolation[] {
+  const { spacing, margins, rotation } = problem.options || {};
+  const violations: LayoutViolation[] = [];
+
+  // The fixed boxes take their identifiers first and are never turned
+  const fixed = (problem.fixedBoxes || []).map(box => ({ ...box, options: { ...box.options, rotation: "forbidden" as const } }));
+  const expected = expectedBoxes([...fixed, ...problem.boxes]);
+  const fixedKeys = new Set([...expected.keys()].slice(0, expectedBoxes(fixed).size));
+
+  solution.bins.forEach((bin, index) => {
+    const container: LayoutContainer = problem.container
+      ? { ...problem.container, shape: problem.shape, polygon: problem.polygon, obstacles: problem.obstacles }
+      : { width: bin.width, height: bin.height };
+    const pinned = bin.placed.filter(box => fixedKeys.has(keyOf(box.id, box.instance)));
+    const found = geometryViolations({ ...container, spacing, margins }, bin.placed, new Set(pinned));
+    violations.push(...found.map(violation => ({ ...violation, bin: index })));
+  });
+
+  const bins = solution.bins.map(bin => bin.placed);
+  violations.push(...identityViolations(bins, expected, rotation, false, true));
+  return violations;
+}
+
+/**
+ * Finds the boxes outside the container or its shape, and the boxes overlapping or too close to each other
+ * or to the obstacles. The pairs of boxes are found by sweeping the boxes from left to right.
+ *
+ * @param container - The container.
+ * @param placements - The boxes of the layout.
+ * @param pinned - The fixed boxes, which may lie in the margins (optional).
+ */
+function geometryViolations(
+  container: LayoutContainer,
+  placements: LayoutPlacement[],
+  pinned = new Set<LayoutPlacement>()
+): LayoutViolation[] {
+  const violations: LayoutViolation[] = [];
+  const spacing = container.spacing || 0;
+  const margins = toMargins(container.margins || 0);
+  const shape = container.polygon ? decomposePolygon(container.polygon) : container.shape;
+  const outside = shape ? complementRects(shape, container.width, container.height) : [];
+  const obstacles: Rect[] = (container.obstacles || []).map(({ left, top, width, height }) => ({
+    left,
+    top,
+    right: left + width,
+    bottom: top + height
+  }));
+  const valid: number[] = [];
+
+  placements.forEach((box, index) => {
+    const name = nameOf(box, index);
+    if (!(box.right > box.left && box.bottom > box.top)) {
+      violations.push({ kind: "size", placements: [index], message: `${name} has no area` });
+      return;
+    }
+    valid.push(index);
+
+    if (box.left < 0 || box.top < 0 || box.right > container.width || box.bottom > container.height) {
+      violations.push({ kind: "out-of-bounds", placements: [index], message: `${name} lies outside the container` });
+    } else if (
+      !pinned.has(box) &&
+      (box.left < margins.left ||
+        box.top < margins.top ||
+        box.right > container.width - margins.right ||
+        box.bottom > container.height - margins.bottom)
+    ) {
+      violations.push({ kind: "out-of-bounds", placements: [index], message: `${name} lies in the margins of the container` });
+    } else if (outside.some(rect => Math.max(...gapsBetween(box, rect)) < 0)) {
+      violations.push({ kind: "out-of-bounds", placements: [index], message: `${name} lies outside the shape of the container` });
+    }
+
+    obstacles.forEach((obstacle, obstacleIndex) => {
+      const gap = Math.max(...gapsBetween(box, obstacle));
+      if (gap < 0) {
+        violations.push({ kind: "obstacle", placements: [index], message: `${name} overlaps obstacle ${obstacleIndex}` });
+      } else if (gap < spacing) {
+        const message = `${name} is ${gap} apart from obstacle ${obstacleIndex}, the spacing is ${spacing}`;
+        violations.push({ kind: "spacing", placements: [index], message });
+      }
+    });
+  });
+
+  const open: number[] = [];
+  for (const index of valid.sort((a, b) => placements[a].left - placements[b].left)) {
+    const box = placements[index];
+    for (let i = open.length - 1; i >= 0; i--) {
+      const other = placements[open[i]];
+      if (other.right + spacing <= box.left) {
+        open.splice(i, 1);
+        continue;
+      }
+
+      const gap = Math.max(...gapsBetween(box, other));
+      const pair = [Math.min(index, open[i]), Math.max(index, open[i])];
+      const names = `${nameOf(placements[pair[0]], pair[0])} and ${nameOf(placements[pair[1]], pair[1])}`;
+      if (gap < 0) {
+        violations.push({ kind: "overlap", placements: pair, message: `${names} overlap` });
+      } else if (gap < spacing) {
+        violations.push({ kind: "spacing", placements: pair, message: `${names} are ${gap} apart, the spacing is ${spacing}` });
+      }
+    }
+    open.push(index);
+  }
+
+  return violations;
+}
+
+/**
+ * Finds the boxes without an identifier or placed more than once, and compares the boxes with the listed ones.
+ *
+ * @param bins - The placements of every bin.
+ * @param expected - The listed boxes by their identifier and instance, undefined if the boxes are not listed.
+ * @param rotation - The default rotation policy.
+ * @param complete - Whether every listed box must be placed.
+ * @param binned - Whether the violations are reported with the index of their bin.
+ */
+function identityViolations(
+  bins: LayoutPlacement[][],
+  expected: Map<string, ExpectedBox> | undefined,
+  rotation: RotationPolicy = "allowed",
+  complete = false,
+  binned = false
+): LayoutViolation[] {
+  const violations: LayoutViolation[] = [];
+  const seen = new Map<string, [number, number]>();
+
+  bins.forEach((placements, bin) => {
+    const report = (violation: LayoutViolation) => violations.push(binned ? { ...violation, bin } : violation);
+
+    placements.forEach((box, index) => {
+      const name = nameOf(box, index);
+      if (!Number.isInteger(box.id)) {
+        report({ kind: "missing-id", placements: [index], message: `${name} has no identifier` });
+        return;
+      }
+
+      const key = keyOf(box.id, box.instance || 0);
+      const first = seen.get(key);
+      if (first) {
+        const where = binned ? `in bin ${first[0]} ` : "";
+        report({ kind: "duplicate-id", placements: [index], message: `${name} is already placed ${where}as placement ${first[1]}` });
+        return;
+      }
+      seen.set(key, [bin, index]);
+      if (!expected) return;
+
+      const spec = expected.get(key);
+      if (!spec) {
+        report({ kind: "unknown-id", placements: [index], message: `${name} is not in the list of boxes` });
+        return;
+      }
+
+      const width = box.right - box.left;
+      const height = box.bottom - box.top;
+      const upright = width === spec.width && height === spec.height;
+      const turned = width === spec.height && height === spec.width;
+      if (!upright && !turned) {
+        const sizes = spec.width === spec.height ? "" : ` or ${spec.height}x${spec.width}`;
+        const message = `${name} is ${width}x${height}, expected ${spec.width}x${spec.height}${sizes}`;
+        report({ kind: "size", placements: [index], message });
+        return;
+      }
+
+      // A square box fits its listed size in both orientations
+      const policy = spec.rotation || rotation;
+      const isTurned = !upright;
+      if (!(upright && turned) && !isOrientationAllowed(policy, isTurned)) {
+        const message = `${name} is ${isTurned ? "turned" : "not turned"}, its rotation is ${policy}`;
+        report({ kind: "rotation", placements: [index], message });
+      }
+    });
+  });
+
+  if (expected) {
+    for (const [key, spec] of expected) {
+      if (seen.has(key) || !(complete || spec.mandatory)) continue;
+      const message = `${spec.mandatory ? "mandatory " : ""}box ${key} is not placed`;
+      violations.push({ kind: "missing-box", placements: [], message });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Lists every instance of the given boxes by its identifier and instance index,
+ * handing out the missing identifiers the way a packer does.
+ */
+function expectedBoxes<T>(boxes: BoxSpec<T>[] | undefined): Map<string, ExpectedBox> | undefined {
+  if (!boxes) return undefined;
+  const ids = new IdSequence();
+  const expected = new Map<string, ExpectedBox>();
+  for (const { width, height, id, options = {} } of boxes) {
+    const boxId = ids.take(id);
+    for (const instance of instancesOf(options)) {
+      expected.set(keyOf(boxId, instance.instance), { width, height, rotation: instance.rotation, mandatory: instance.mandatory });
+    }
+  }
+  return expected;
+}
+
+/**
+ * Calculates the gaps between two rectangles along both axes, a negative gap means that the projections overlap.
+ * The rectangles overlap when both gaps are negative.
+ */
+function gapsBetween(a: Rect, b: Rect): [number, number] {
+  return [Math.max(a.left - b.right, b.left - a.right), Math.max(a.top - b.bottom, b.top - a.bottom)];
+}
+
+function keyOf(id: number, instance: number) {
+  return `${id}#${instance}`;
+}
+
+function nameOf(box: LayoutPlacement, index: number) {
+  return Number.isInteger(box.id) ? `box ${keyOf(box.id, box.instance || 0)}` : `placement ${index}`;
+}
@@ -0,0 +1,18 @@
+import { servePackJobs } from "./packer/jobs";
+import { WorkerRequest, WorkerResponse } from "./packer/types";
+
+type NodePort = { postMessage(message: WorkerResponse): void; on(event: "message", listener: (message: WorkerRequest) => void): void };
+type WorkerScope = { postMessage(message: WorkerResponse): void; onmessage: (event: { data: WorkerRequest }) => void };
+
+declare const require: (module: string) => { parentPort?: NodePort };
+
+// The same bundle runs as a browser Web Worker and as a Node.js worker thread
+const parentPort = typeof require === "function" ? require("worker_threads").parentPort : undefined;
+
+if (parentPort) {
+  parentPort.on("message", servePackJobs(message => parentPort.postMessage(message)));
+} else {
+  const scope = (self as unknown) as WorkerScope;
+  const receive = servePackJobs(message => scope.postMessage(message));
+  scope.onmessage = event => receive(event.data);
+}
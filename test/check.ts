@@ -0,0 +1,23 @@
+let checked = 0;
+let failed = 0;
+
+/**
+ * Counts a check and reports it if it fails.
+ *
+ * @param name - What is checked.
+ * @param passed - Whether the check passed.
+ */
+export function check(name: string, passed: boolean) {
+  checked++;
+  if (passed) return;
+  failed++;
+  console.error(`Failed: ${name}`);
+}
+
+/**
+ * Prints the number of checks and exits with 1 if any check failed.
+ */
+export function report() {
+  console.log(`${checked} checks, ${failed} failed`);
+  process.exitCode = failed ? 1 : 0;
+}
@@ -0,0 +1,38 @@
+import { toDxf } from "../src/packer/dxf";
+import { check } from "./check";
+
+/**
+ * Reads the group codes and values of a DXF document.
+ */
+function pairs(dxf: string) {
+  const lines = dxf.trimEnd().split("\n");
+  const result: [string, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) result.push([lines[i], lines[i + 1]]);
+  return { result, even: lines.length % 2 === 0 };
+}
+
+/**
+ * Reads the value of a header variable.
+ */
+function headerValue(dxf: string, variable: string) {
+  const { result } = pairs(dxf);
+  const index = result.findIndex(([code, value]) => code === "9" && value === variable);
+  return index < 0 ? undefined : result[index + 1][1];
+}
+
+const container = { width: 100, height: 50 };
+const placements = [{ id: 0, instance: 0, left: 0, top: 0, right: 40, bottom: 20, label: "Door\r\nleft" }];
+
+check("dxf: millimetres by default", headerValue(toDxf(container, placements), "$INSUNITS") === "4");
+check("dxf: metric measurement by default", headerValue(toDxf(container, placements), "$MEASUREMENT") === "1");
+check("dxf: inches", headerValue(toDxf(container, placements, { units: "in" }), "$INSUNITS") === "1");
+check("dxf: imperial measurement for inches", headerValue(toDxf(container, placements, { units: "in" }), "$MEASUREMENT") === "0");
+check("dxf: metres", headerValue(toDxf(container, placements, { units: "m" }), "$INSUNITS") === "6");
+check("dxf: unitless", headerValue(toDxf(container, placements, { units: "unitless" }), "$INSUNITS") === "0");
+check("dxf: no measurement when unitless", headerValue(toDxf(container, placements, { units: "unitless" }), "$MEASUREMENT") === undefined);
+
+const labelled = toDxf(container, placements, { labels: true });
+const { result, even } = pairs(labelled);
+check("dxf: a label with line breaks keeps the codes and values paired", even && result.every(([code]) => /^\s*\d+$/.test(code)));
+check("dxf: a label with line breaks is a single line", result.some(([code, value]) => code === "1" && value === "Door left"));
+check("dxf: the file ends with EOF", result[result.length - 1][1] === "EOF");
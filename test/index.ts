@@ -0,0 +1,6 @@
+import { report } from "./check";
+import "./dxf";
+import "./skyline";
+import "./strip";
+
+report();
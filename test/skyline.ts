@@ -0,0 +1,13 @@
+import SkylinePacker from "../src/packer/SkylinePacker";
+import { check } from "./check";
+
+const empty = new SkylinePacker(100, 100);
+empty.pack();
+check("skyline: an empty container has no fullness", empty.fullness === 0);
+
+const overlapping = new SkylinePacker(100, 100);
+overlapping.addObstacle(0, 0, 50, 50);
+overlapping.addObstacle(0, 25, 50, 25);
+overlapping.addBox(50, 50);
+overlapping.pack();
+check("skyline: overlapping obstacles are left out once", overlapping.fullness === 1);
@@ -0,0 +1,13 @@
+import StripPacker from "../src/packer/StripPacker";
+import { check } from "./check";
+
+const strip = new StripPacker(100);
+strip.addBox(30.5, 10.5);
+strip.addBox(80, 10.25);
+check("strip: decimal sizes find the shortest length", Math.abs(strip.getResult().usedLength - 20.75) < 1e-9);
+
+const spaced = new StripPacker(100);
+spaced.setOptions({ spacing: 0.5, margins: 1.25 });
+spaced.addBox(60, 20.2);
+spaced.addBox(60, 20.2);
+check("strip: decimal spacing and margins find the shortest length", Math.abs(spaced.getResult().usedLength - 43.4) < 1e-9);